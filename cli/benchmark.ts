@@ -0,0 +1,87 @@
+import { parseArgs } from 'node:util'
+import { performance } from 'node:perf_hooks'
+import type { SimulationParams } from '../src/simulation/types'
+import { Simulation } from '../src/simulation/simulation'
+import { defaultParams } from '../src/simulation/defaults'
+
+/**
+ * Measures simulation throughput at several particle counts.
+ *
+ * Usage:
+ *   npm run benchmark -- [--counts 250,1000,4000,16000] [--steps 200] [--warmup 20] [--seed 1]
+ *
+ * Each count is the initial number of substrate particles, split across types in
+ * the same proportions as the defaults. The world and the initial energy grow with
+ * the count so density matches the default setup. Only steps after the warmup are timed.
+ */
+
+const usage = 'Usage: npm run benchmark -- [--counts N,N,...] [--steps N] [--warmup N] [--seed N]'
+
+function fail(message: string): never {
+  process.stderr.write(`${message}\n${usage}\n`)
+  process.exit(1)
+}
+
+function parsePositiveInt(value: string, name: string): number {
+  const n = Number(value)
+  if (!Number.isInteger(n) || n <= 0) fail(`--${name} must be a positive integer, got "${value}"`)
+  return n
+}
+
+/** Default params scaled up or down to `count` initial substrate particles */
+function scaledParams(count: number, seed: number): SimulationParams {
+  const defaultTotal = defaultParams.species.reduce((sum, species) => sum + species.initialCount, 0)
+  const factor = count / defaultTotal
+  return {
+    ...defaultParams,
+    seed,
+    Lx: Math.round(defaultParams.Lx * Math.sqrt(factor)),
+    Ly: Math.round(defaultParams.Ly * Math.sqrt(factor)),
+    energyParticleCount: Math.round(defaultParams.energyParticleCount * factor),
+    species: defaultParams.species.map(species => ({ ...species, initialCount: Math.round(species.initialCount * factor) })),
+  }
+}
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      counts: { type: 'string', short: 'c' },
+      steps: { type: 'string', short: 'n' },
+      warmup: { type: 'string', short: 'w' },
+      seed: { type: 'string', short: 's' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  if (values.help) {
+    process.stdout.write(`${usage}\n`)
+    return
+  }
+
+  const counts = (values.counts ?? '250,1000,4000,16000').split(',').map(c => parsePositiveInt(c.trim(), 'counts'))
+  const steps = parsePositiveInt(values.steps ?? '200', 'steps')
+  const warmup = values.warmup === undefined ? 20 : Number(values.warmup)
+  if (!Number.isInteger(warmup) || warmup < 0) fail(`--warmup must be a non-negative integer, got "${values.warmup}"`)
+  const seed = values.seed === undefined ? defaultParams.seed : parsePositiveInt(values.seed, 'seed')
+
+  process.stdout.write('particles\tworld\tsteps/s\tms/step\tfinal particles\n')
+  for (const count of counts) {
+    const params = scaledParams(count, seed)
+    const simulation = new Simulation(params)
+    simulation.initialize()
+    for (let i = 0; i < warmup; i++) simulation.step()
+
+    const startedAt = performance.now()
+    for (let i = 0; i < steps; i++) simulation.step()
+    const elapsed = performance.now() - startedAt
+
+    const stats = simulation.exportState().stats
+    const finalCount = stats.speciesCounts.reduce((sum, n) => sum + n, 0)
+    const rate = elapsed > 0 ? (steps * 1000) / elapsed : Infinity
+    process.stdout.write(
+      `${count}\t${params.Lx}x${params.Ly}\t${rate.toFixed(1)}\t${(elapsed / steps).toFixed(2)}\t${finalCount}\n`,
+    )
+  }
+}
+
+main()
@@ -0,0 +1,121 @@
+import { closeSync, openSync, readFileSync, writeFileSync, writeSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import type { SimulationParams } from '../src/simulation/types'
+import type { HeadlessOutputFormat } from '../src/simulation/headless'
+import { createSampleFormatter, runHeadless } from '../src/simulation/headless'
+import { formatGenealogy } from '../src/simulation/lineage'
+import type { Simulation } from '../src/simulation/simulation'
+import { defaultParams } from '../src/simulation/defaults'
+import type { LegacyCounts } from '../src/simulation/species'
+import { completeSpecies, speciesFromLegacyCounts, validateSpecies } from '../src/simulation/species'
+
+/**
+ * Command-line entry point for long headless runs.
+ *
+ * Usage:
+ *   npm run headless -- --steps 100000 [--params params.json] [--every 100]
+ *                       [--format csv|ndjson] [--out stats.csv] [--seed 42]
+ *                       [--genealogy lineages.json|lineages.nwk]
+ *
+ * The params file may be partial; missing fields fall back to the UI defaults.
+ * Files from before the species registry may give particleCountA etc. instead of species;
+ * species without physical properties move as the global params say.
+ * NDJSON rows also include per-reaction flux; CSV rows hold the flat stats only.
+ * Stats go to --out, or to stdout when omitted. Progress is reported on stderr.
+ * The binder cluster genealogy is written to --genealogy at the end of the run,
+ * as Newick for .nwk/.newick files and as JSON otherwise.
+ */
+
+const usage = 'Usage: npm run headless -- --steps N [--params file.json] [--every N] [--format csv|ndjson] [--out file] [--seed N] [--genealogy file]'
+
+function fail(message: string): never {
+  process.stderr.write(`${message}\n${usage}\n`)
+  process.exit(1)
+}
+
+function parseNonNegativeInt(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback
+  const n = Number(value)
+  if (!Number.isInteger(n) || n < 0) fail(`--${name} must be a non-negative integer, got "${value}"`)
+  return n
+}
+
+function loadParams(path: string | undefined): SimulationParams {
+  if (!path) return { ...defaultParams }
+  let overrides: Partial<SimulationParams> & LegacyCounts
+  try {
+    overrides = JSON.parse(readFileSync(path, 'utf8'))
+  } catch (error) {
+    fail(`Could not read params file ${path}: ${(error as Error).message}`)
+  }
+  const {
+    particleCountA, particleCountB, particleCountC, particleCountD, particleCountE, particleCountBinder,
+    ...rest
+  } = overrides
+  const params = { ...defaultParams, ...rest }
+  params.thermodynamics = { ...defaultParams.thermodynamics, ...rest.thermodynamics }
+  params.species = rest.species ? completeSpecies(rest.species) : speciesFromLegacyCounts({
+    particleCountA, particleCountB, particleCountC, particleCountD, particleCountE, particleCountBinder,
+  })
+  const problem = validateSpecies(params.species)
+  if (problem) fail(`Invalid species in ${path}: ${problem}`)
+  return params
+}
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      params: { type: 'string', short: 'p' },
+      steps: { type: 'string', short: 'n' },
+      every: { type: 'string', short: 'e' },
+      format: { type: 'string', short: 'f' },
+      out: { type: 'string', short: 'o' },
+      seed: { type: 'string', short: 's' },
+      genealogy: { type: 'string', short: 'g' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  if (values.help) {
+    process.stdout.write(`${usage}\n`)
+    return
+  }
+  if (values.steps === undefined) fail('--steps is required')
+
+  const steps = parseNonNegativeInt(values.steps, 'steps', 0)
+  const sampleEvery = parseNonNegativeInt(values.every, 'every', 1)
+  const format = (values.format ?? 'csv') as HeadlessOutputFormat
+  if (format !== 'csv' && format !== 'ndjson') fail(`--format must be csv or ndjson, got "${values.format}"`)
+
+  const params = loadParams(values.params)
+  if (values.seed !== undefined) params.seed = parseNonNegativeInt(values.seed, 'seed', params.seed)
+
+  // Synchronous writes keep memory flat regardless of run length
+  const fd = values.out ? openSync(values.out, 'w') : 1
+  const formatSample = createSampleFormatter(format, params.species.map((species) => species.name))
+  const startedAt = Date.now()
+
+  let simulation: Simulation
+  try {
+    simulation = runHeadless(params, {
+      steps,
+      sampleEvery,
+      onSample: (state) => writeSync(fd, formatSample(state)),
+      onProgress: (frame) => {
+        const seconds = (Date.now() - startedAt) / 1000
+        const rate = seconds > 0 ? Math.round(frame / seconds) : 0
+        process.stderr.write(`\rframe ${frame}/${steps} (${rate} steps/s)`)
+      },
+    })
+  } finally {
+    if (fd !== 1) closeSync(fd)
+  }
+  process.stderr.write('\n')
+
+  if (values.genealogy) {
+    const format = /\.(nwk|newick)$/i.test(values.genealogy) ? 'newick' : 'json'
+    writeFileSync(values.genealogy, formatGenealogy(simulation.getGenealogy(), format))
+  }
+}
+
+main()
@@ -0,0 +1,77 @@
+import { useSimulationStore } from "../store/simulationStore";
+import type { ParticleType, RafSet, Species } from "../simulation/types";
+import { formatReaction } from "../simulation/reactions";
+import { speciesName, speciesTypes } from "../simulation/species";
+
+/**
+ * Summary line and reaction list for one RAF.
+ */
+function RafEntry({ title, raf, species }: { title: string; raf: RafSet; species: Species[] }) {
+  return (
+    <div className={raf.alive ? 'raf-item alive' : 'raf-item'}>
+      <div className='raf-header'>
+        <span>{title}: {raf.reactions.length} reactions</span>
+        <span className='raf-status'>{raf.alive ? 'alive' : 'dormant'}</span>
+      </div>
+      <div className='raf-species'>Species: {raf.species.map((type) => speciesName(species, type)).join(', ')}</div>
+      <ul>
+        {raf.reactions.map((r, i) => <li key={i}>{formatReaction(r, species)}</li>)}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Shows the autocatalytic sets (RAFs) of the live reaction network
+ * and lets the user choose the food set the analysis is relative to.
+ */
+export default function Autocatalysis() {
+  const report = useSimulationStore((state) => state.autocatalysis);
+  const foodSet = useSimulationStore((state) => state.params.rafFoodSet);
+  const species = useSimulationStore((state) => state.params.species);
+  const setParams = useSimulationStore((state) => state.setParams);
+
+  // With no explicit food set, show the one the worker derived from the seeded types
+  const effectiveFood = foodSet ?? report?.foodSet ?? [];
+
+  const toggleFood = (type: ParticleType) => {
+    const next = effectiveFood.includes(type)
+      ? effectiveFood.filter((t) => t !== type)
+      : [...effectiveFood, type].sort((a, b) => a - b);
+    setParams({ rafFoodSet: next });
+  };
+
+  return (
+    <div className='autocatalysis'>
+      <h4>Autocatalytic Sets</h4>
+      <div className='food-set'>
+        <span>Food set:</span>
+        {speciesTypes(species).map((type) => (
+          <label key={type}>
+            <input type='checkbox' checked={effectiveFood.includes(type)} onChange={() => toggleFood(type)} />
+            {speciesName(species, type)}
+          </label>
+        ))}
+        <label>
+          <input type='checkbox' checked={foodSet === null} onChange={() => setParams({ rafFoodSet: foodSet === null ? effectiveFood : null })} />
+          Seeded types
+        </label>
+      </div>
+
+      {!report && <p className='raf-empty'>Waiting for analysis…</p>}
+      {report && !report.maxRaf && <p className='raf-empty'>No RAF in the current catalog.</p>}
+      {report?.maxRaf && (
+        <>
+          <p className='raf-summary'>
+            Frame {report.frame} · {report.irreducibleRafs.filter((r) => r.alive).length}/{report.irreducibleRafs.length} irreducible RAFs alive
+            (fired within {report.activityWindowFrames} frames)
+          </p>
+          <div className='raf-list'>
+            <RafEntry title='Max RAF' raf={report.maxRaf} species={species} />
+            {report.irreducibleRafs.map((raf, i) => <RafEntry key={i} title={`iRAF ${i + 1}`} raf={raf} species={species} />)}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useSimulationStore } from "../store/simulationStore";
+import type { BoundaryCondition, EdgeBoundaries } from "../simulation/types";
+
+const edges: { edge: keyof EdgeBoundaries; label: string }[] = [
+  { edge: 'left', label: 'Left' },
+  { edge: 'right', label: 'Right' },
+  { edge: 'top', label: 'Top' },
+  { edge: 'bottom', label: 'Bottom' },
+];
+
+const conditions: { condition: BoundaryCondition; label: string }[] = [
+  { condition: 'periodic', label: 'Periodic' },
+  { condition: 'reflecting', label: 'Reflecting' },
+  { condition: 'absorbing', label: 'Absorbing' },
+  { condition: 'clamped', label: 'Clamped' },
+];
+
+/** Every edge set to the same condition */
+function uniform(condition: BoundaryCondition): EdgeBoundaries {
+  return { left: condition, right: condition, top: condition, bottom: condition };
+}
+
+/**
+ * Per-edge boundary conditions, set separately for substrate and energy particles.
+ * Changes apply immediately.
+ */
+export default function Boundaries() {
+  const substrateBoundaries = useSimulationStore((state) => state.params.substrateBoundaries);
+  const energyBoundaries = useSimulationStore((state) => state.params.energyBoundaries);
+  const setParams = useSimulationStore((state) => state.setParams);
+
+  const setBoth = (condition: BoundaryCondition) => {
+    setParams({ substrateBoundaries: uniform(condition), energyBoundaries: uniform(condition) });
+  };
+
+  return (
+    <div className='boundaries'>
+      <h4>Boundaries</h4>
+      <table>
+        <thead>
+          <tr>
+            <th>Edge</th>
+            <th>Substrates</th>
+            <th>Energy</th>
+          </tr>
+        </thead>
+        <tbody>
+          {edges.map(({ edge, label }) => (
+            <tr key={edge}>
+              <td>{label}</td>
+              <td>
+                <select
+                  value={substrateBoundaries[edge]}
+                  onChange={(e) => setParams({ substrateBoundaries: { ...substrateBoundaries, [edge]: e.target.value as BoundaryCondition } })}
+                >
+                  {conditions.map(({ condition, label }) => <option key={condition} value={condition}>{label}</option>)}
+                </select>
+              </td>
+              <td>
+                <select
+                  value={energyBoundaries[edge]}
+                  onChange={(e) => setParams({ energyBoundaries: { ...energyBoundaries, [edge]: e.target.value as BoundaryCondition } })}
+                >
+                  {conditions.map(({ condition, label }) => <option key={condition} value={condition}>{label}</option>)}
+                </select>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className='boundaries-presets'>
+        <button onClick={() => setBoth('reflecting')}>Closed Box</button>
+        <button onClick={() => setBoth('periodic')}>Fully Periodic</button>
+      </div>
+    </div>
+  );
+}
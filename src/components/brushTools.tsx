@@ -0,0 +1,136 @@
+import { useSimulationStore } from "../store/simulationStore";
+import type { BrushTool, ObstacleShape } from "../store/brush";
+import { spawnCount } from "../store/brush";
+import type { ParticleType } from "../simulation/types";
+import { speciesName, speciesTypes } from "../simulation/species";
+
+const tools: { tool: BrushTool; label: string; hint: string }[] = [
+  { tool: 'inspect', label: 'Inspect', hint: 'Drag to pan, click to inspect particles.' },
+  { tool: 'spawn', label: 'Spawn', hint: 'Paint particles of the chosen type.' },
+  { tool: 'erase', label: 'Erase', hint: 'Remove particles under the brush.' },
+  { tool: 'energy', label: 'Energy', hint: 'Click to inject a burst of energy particles.' },
+  { tool: 'move', label: 'Move', hint: 'Drag particles under the brush along.' },
+  { tool: 'obstacle', label: 'Obstacle', hint: 'Draw obstacles that particles and energy cannot pass.' },
+];
+
+const obstacleShapes: { shape: ObstacleShape; label: string; hint: string }[] = [
+  { shape: 'wall', label: 'Wall', hint: 'Drag from one end to the other.' },
+  { shape: 'channel', label: 'Channel', hint: 'Drag along the centerline of a porous channel.' },
+  { shape: 'circle', label: 'Circle', hint: 'Drag from the center outwards.' },
+  { shape: 'polygon', label: 'Polygon', hint: 'Click corners; click the first corner or double-click to close.' },
+  { shape: 'remove', label: 'Remove', hint: 'Click an obstacle to remove it.' },
+];
+
+/**
+ * Tool picker and brush settings for editing the world on the canvas.
+ * Edits apply immediately, also while the simulation is running.
+ */
+export default function BrushTools() {
+  const brush = useSimulationStore((state) => state.brush);
+  const setBrush = useSimulationStore((state) => state.setBrush);
+  const species = useSimulationStore((state) => state.params.species);
+  const obstacleCount = useSimulationStore((state) => state.params.obstacles.length);
+  const setParams = useSimulationStore((state) => state.setParams);
+  const active = tools.find((t) => t.tool === brush.tool)!;
+  const shape = obstacleShapes.find((s) => s.shape === brush.obstacleShape)!;
+
+  return (
+    <div className='brush-tools'>
+      <h4>Tools</h4>
+      <div className='brush-tool-buttons'>
+        {tools.map(({ tool, label }) => (
+          <button key={tool} className={tool === brush.tool ? 'active' : ''} onClick={() => setBrush({ tool })}>{label}</button>
+        ))}
+      </div>
+      <p className='inspector-hint'>
+        {active.hint}{brush.tool === 'obstacle' && ` ${shape.hint}`}{brush.tool !== 'inspect' && ' Shift-drag or middle-drag pans.'}
+      </p>
+
+      {brush.tool === 'obstacle' && (
+        <div className='brush-settings'>
+          <label>
+            Shape
+            <select value={brush.obstacleShape} onChange={(e) => setBrush({ obstacleShape: e.target.value as ObstacleShape })}>
+              {obstacleShapes.map(({ shape, label }) => <option key={shape} value={shape}>{label}</option>)}
+            </select>
+          </label>
+          {(brush.obstacleShape === 'wall' || brush.obstacleShape === 'channel') && (
+            <label>
+              Wall Thickness
+              <input type='range' min={1} max={30} step={1} value={brush.wallThickness}
+                onChange={(e) => setBrush({ wallThickness: parseInt(e.target.value) })} />
+              <span>{brush.wallThickness}</span>
+            </label>
+          )}
+          {brush.obstacleShape === 'channel' && (
+            <>
+              <label>
+                Channel Width
+                <input type='range' min={10} max={200} step={2} value={brush.channelWidth}
+                  onChange={(e) => setBrush({ channelWidth: parseInt(e.target.value) })} />
+                <span>{brush.channelWidth}</span>
+              </label>
+              <label>
+                Pore Size
+                <input type='range' min={0} max={40} step={1} value={brush.poreSize}
+                  onChange={(e) => setBrush({ poreSize: parseInt(e.target.value) })} />
+                <span>{brush.poreSize === 0 ? 'Closed' : brush.poreSize}</span>
+              </label>
+              <label>
+                Pore Spacing
+                <input type='range' min={10} max={300} step={5} value={brush.poreSpacing}
+                  onChange={(e) => setBrush({ poreSpacing: parseInt(e.target.value) })} />
+                <span>{brush.poreSpacing}</span>
+              </label>
+            </>
+          )}
+          <button disabled={obstacleCount === 0} onClick={() => setParams({ obstacles: [] })}>
+            Clear Obstacles ({obstacleCount})
+          </button>
+        </div>
+      )}
+
+      {brush.tool !== 'inspect' && brush.tool !== 'obstacle' && (
+        <div className='brush-settings'>
+          <label>
+            Brush Radius
+            <input type='range' min={5} max={150} step={1} value={brush.radius}
+              onChange={(e) => setBrush({ radius: parseInt(e.target.value) })} />
+            <span>{brush.radius}</span>
+          </label>
+          {(brush.tool === 'spawn' || brush.tool === 'erase') && (
+            <label>
+              Particle Type
+              <select value={brush.particleType} onChange={(e) => setBrush({ particleType: Number(e.target.value) as ParticleType })}>
+                {speciesTypes(species).map((type) => <option key={type} value={type}>{speciesName(species, type)}</option>)}
+              </select>
+            </label>
+          )}
+          {brush.tool === 'spawn' && (
+            <label>
+              Density
+              <input type='range' min={0.5} max={20} step={0.5} value={brush.density}
+                onChange={(e) => setBrush({ density: parseFloat(e.target.value) })} />
+              <span>{spawnCount(brush)} / dab</span>
+            </label>
+          )}
+          {brush.tool === 'erase' && (
+            <label className='brush-checkbox'>
+              <input type='checkbox' checked={brush.eraseSelectedTypeOnly}
+                onChange={(e) => setBrush({ eraseSelectedTypeOnly: e.target.checked })} />
+              Only erase the selected type
+            </label>
+          )}
+          {brush.tool === 'energy' && (
+            <label>
+              Energy Burst
+              <input type='range' min={5} max={300} step={5} value={brush.energyBurst}
+                onChange={(e) => setBrush({ energyBurst: parseInt(e.target.value) })} />
+              <span>{brush.energyBurst}</span>
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,65 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { PointerEvent } from "react";
 import { useSimulationStore } from "../store/simulationStore";
 import { ParticleType } from "../simulation/types";
+import type { Obstacle, ObstaclePoint } from "../simulation/types";
+import { obstacleHitTest } from "../simulation/obstacles";
+import type { ParticleRenderer } from "../rendering/renderer";
+import { createRenderer } from "../rendering/renderer";
+import { speciesColors } from "../rendering/palette";
+import { drawObstacles } from "../rendering/obstacleOverlay";
+import { drawFlowArrows } from "../rendering/flowOverlay";
+import { drawProtocells } from "../rendering/protocellOverlay";
+import { FlowSampler } from "../simulation/flow";
+import { panBy, screenToWorld, zoomAt } from "../rendering/camera";
+import { dragObstacle, spawnCount } from "../store/brush";
+
+// Pointer travel in pixels below which a press counts as a click rather than a drag
+const CLICK_SLOP = 3;
+// Minimum click query radius in canvas pixels, so tiny particles stay clickable when zoomed out
+const MIN_PICK_PIXELS = 6;
+// Clicking within this many canvas pixels of a polygon's first point closes it
+const CLOSE_POLYGON_PIXELS = 8;
+
+// A drag moves the view (inspect tool, middle button or Shift), paints with the brush or draws an obstacle
+interface Drag {
+  mode: 'view' | 'brush' | 'obstacle';
+  lastX: number;
+  lastY: number;
+  travel: number;
+  origin: ObstaclePoint; // World point where the drag started
+  lastDab: { x: number; y: number }; // World point of the last brush dab
+}
+
+/** Canvas-relative pixel position of a pointer event */
+function canvasPoint(e: PointerEvent<HTMLCanvasElement>): { x: number; y: number } {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+}
+
+/**
+ * Applies the current brush tool at a world point.
+ */
+function dab(x: number, y: number): void {
+  const { brush, spawnParticles, removeParticlesInRegion } = useSimulationStore.getState();
+  if (brush.tool === 'spawn') spawnParticles(brush.particleType, x, y, brush.radius, spawnCount(brush));
+  if (brush.tool === 'erase') {
+    removeParticlesInRegion(x, y, brush.radius, brush.eraseSelectedTypeOnly ? [brush.particleType] : undefined);
+  }
+  if (brush.tool === 'energy') spawnParticles(ParticleType.Energy, x, y, brush.radius, brush.energyBurst);
+}
+
+/** Adds an obstacle to the world; obstacles live in the params so snapshots keep them */
+function placeObstacle(obstacle: Obstacle): void {
+  const { params, setParams } = useSimulationStore.getState();
+  setParams({ obstacles: [...params.obstacles, obstacle] });
+}
 
 /**
- * Renders the simulation on a canvas.
+ * Renders the simulation on a canvas, with WebGL2 when available and Canvas 2D otherwise.
+ * Scrolling zooms around the cursor. With the inspect tool, dragging pans and clicking
+ * inspects nearby particles; brush tools paint, erase, inject energy or drag particles,
+ * and the obstacle tool draws and removes obstacles, shown on an overlay canvas.
  */
 export default function SimulationCanvas() {
     const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -11,6 +67,35 @@ export default function SimulationCanvas() {
     const isInitialized = useSimulationStore((state) => state.isInitialized)
     const start = useSimulationStore((state) => state.start)
     const reset = useSimulationStore((state) => state.reset)
+    const particleRadius = useSimulationStore((state) => state.params.particleRadius)
+    const renderMode = useSimulationStore((state) => state.renderMode)
+    const camera = useSimulationStore((state) => state.camera)
+    const brush = useSimulationStore((state) => state.brush)
+    const obstacles = useSimulationStore((state) => state.params.obstacles)
+    const flow = useSimulationStore((state) => state.params.flow)
+    const seed = useSimulationStore((state) => state.params.seed)
+    const species = useSimulationStore((state) => state.params.species)
+    const showFlow = useSimulationStore((state) => state.showFlow)
+    const worldWidth = useSimulationStore((state) => state.params.Lx)
+    const worldHeight = useSimulationStore((state) => state.params.Ly)
+    // Only time-evolving flow needs redrawing every frame
+    const flowFrame = useSimulationStore((state) => showFlow && state.params.flow.kind === 'noise' ? state.stats.frameCount ?? 0 : 0)
+    const protocells = useSimulationStore((state) => state.showProtocells ? state.simulationState?.protocells : undefined)
+    const flowSampler = useMemo(() => new FlowSampler(flow, seed), [flow, seed]);
+    const colors = useMemo(() => speciesColors(species), [species]);
+    const radiusScales = useMemo(() => species.map((s) => s.radius), [species]);
+    const dragRef = useRef<Drag | null>(null);
+    const overlayRef = useRef<HTMLCanvasElement>(null);
+    // Obstacle being dragged out, and the points of a polygon being placed
+    const [draft, setDraft] = useState<Obstacle | null>(null);
+    const [polygon, setPolygon] = useState<ObstaclePoint[]>([]);
+    // Pointer position for the brush outline, in canvas pixels
+    const [hover, setHover] = useState<{ x: number; y: number } | null>(null);
+    const rendererPreference = useSimulationStore((state) => state.rendererPreference)
+    const setActiveRenderer = useSimulationStore((state) => state.setActiveRenderer)
+    const rendererRef = useRef<ParticleRenderer | null>(null);
+    const [webglFailed, setWebglFailed] = useState(false);
+    const backend = webglFailed && rendererPreference === 'auto' ? 'canvas2d' : rendererPreference;
   
     useEffect(() => {
       const canvas = canvasRef.current;
@@ -19,22 +104,40 @@ export default function SimulationCanvas() {
   
       const resizeObserver = new ResizeObserver(() => {
         const { clientWidth, clientHeight } = panel;
-        if (clientWidth > 0 && clientHeight > 0) {
+        // The canvas element is replaced when the renderer changes, so look it up each time
+        const canvas = canvasRef.current;
+        if (canvas && clientWidth > 0 && clientHeight > 0) {
           // This is the crucial part: sync the canvas buffer size with its display size
-          if (canvas.width !== clientWidth || canvas.height !== clientHeight) {
-            canvas.width = clientWidth;
-            canvas.height = clientHeight;
+          for (const target of [canvas, overlayRef.current]) {
+            if (target && (target.width !== clientWidth || target.height !== clientHeight)) {
+              target.width = clientWidth;
+              target.height = clientHeight;
+            }
           }
           // Inform the simulation of the new dimensions
           useSimulationStore.getState().setParams({ Lx: clientWidth, Ly: clientHeight });
         }
       });
       resizeObserver.observe(panel);
+
+      // Registered by hand because React's wheel listener is passive and cannot stop page scrolling
+      const onWheel = (e: WheelEvent) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        e.preventDefault();
+        const rect = canvas.getBoundingClientRect();
+        const { camera, setCamera } = useSimulationStore.getState();
+        setCamera(zoomAt(camera, e.clientX - rect.left, e.clientY - rect.top, Math.exp(-e.deltaY * 0.0015)));
+      };
+      panel.addEventListener('wheel', onWheel, { passive: false });
   
       // Initial init call once we have dimensions
       useSimulationStore.getState().init();
   
-      return () => resizeObserver.disconnect();
+      return () => {
+        resizeObserver.disconnect();
+        panel.removeEventListener('wheel', onWheel);
+      };
     }, []);
   
     // Automatically reset and start the simulation once the worker reports initialized
@@ -47,76 +150,181 @@ export default function SimulationCanvas() {
       }, 500)
     }, [isInitialized, reset, start])
   
+    // Create the renderer for the current canvas element; switching backends remounts the canvas
     useEffect(() => {
       const canvas = canvasRef.current;
-      const context = canvas?.getContext('2d');
-      if (!context || !canvas || !simulationState) return;
-  
-      context.fillStyle = '#1a1a1a';
-      context.fillRect(0, 0, canvas.width, canvas.height);
-  
-      const { positions, types } = simulationState;
+      const panel = canvas?.parentElement;
+      if (!canvas || !panel) return;
+      if (panel.clientWidth > 0 && panel.clientHeight > 0) {
+        canvas.width = panel.clientWidth;
+        canvas.height = panel.clientHeight;
+      }
+
+      const renderer = createRenderer(canvas, backend);
+      if (!renderer) {
+        // WebGL may have claimed this canvas before failing; retry Canvas 2D on a fresh one
+        if (backend !== 'canvas2d') setWebglFailed(true);
+        return;
+      }
+      rendererRef.current = renderer;
+      setActiveRenderer(renderer.kind);
+
+      // Draw the latest frame right away so switching does not leave a blank canvas
+      const { simulationState: latest, params, renderMode: mode, camera: view } = useSimulationStore.getState();
+      if (latest) renderer.render(latest, { radius: params.particleRadius, mode, camera: view, colors: speciesColors(params.species), radiusScales: params.species.map((s) => s.radius) });
+
+      return () => {
+        renderer.dispose();
+        rendererRef.current = null;
+        setActiveRenderer(null);
+      };
+    }, [backend, setActiveRenderer]);
   
-      // Draw Particles
-      for (let i = 0; i < positions.length / 2; i++) {
-        const x = positions[i * 2];
-        const y = positions[i * 2 + 1];
-        const type = types[i];
-        // Render radius comes from the unified physics parameter
-        const radius = useSimulationStore.getState().params.particleRadius;
-        
-        // Choose shape and color based on particle type
-        // - Substrate, binder, attractor, E: draw circles of radius r
-        // - Energy: draw a smaller rectangle (~half the circle's diameter) for visual distinction
-        if (type === ParticleType.Energy) {
-          // Set color for energy particles
-          context.fillStyle = 'rgba(255, 255, 100, 0.9)'
-          
-          // Compute a rectangle roughly a third of the visual size of substrate circles
-          const rectW = radius
-          const rectH = radius
-          const left = x - rectW / 3
-          const top = y - rectH / 3
-          
-          // Draw filled rectangle centered at particle position
-          context.beginPath()
-          context.rect(left, top, rectW, rectH)
-          context.fill()
-          
-          // Add a subtle outline for better visibility
-          context.strokeStyle = 'rgba(255, 255, 255, 0.3)'
-          context.lineWidth = 1
-          context.stroke()
-        } else {
-          // Set fill color based on substrate-like particle types
-          context.beginPath()
-          context.arc(x, y, radius, 0, 2 * Math.PI)
-          
-          if (type === ParticleType.A) {
-            context.fillStyle = `rgba(50, 100, 255, 0.9)` // Blue
-          } else if (type === ParticleType.B) {
-            context.fillStyle = `rgba(255, 50, 50, 0.9)` // Red
-          } else if (type === ParticleType.C) {
-            context.fillStyle = `rgba(50, 255, 50, 0.9)` // Green
-          } else if (type === ParticleType.D) {
-            context.fillStyle = `rgba(200, 50, 255, 0.9)` // Purple
-          } else if (type === ParticleType.Binder) {
-            context.fillStyle = `rgba(200, 200, 200, 0.9)` // White/Gray
-          } else if (type === ParticleType.Attractor) {
-            context.fillStyle = `rgba(255, 200, 50, 0.9)` // Orange-gold for attractor
-          } else if (type === ParticleType.E) {
-            context.fillStyle = `rgba(255, 150, 200, 0.9)` // Pinkish for E
-          }
-          
-          context.fill()
-          
-          // Add a subtle white outline for better visibility
-          context.strokeStyle = 'rgba(255, 255, 255, 0.3)'
-          context.lineWidth = 1
-          context.stroke()
+    useEffect(() => {
+      if (!simulationState) return;
+      rendererRef.current?.render(simulationState, { radius: particleRadius, mode: renderMode, camera, colors, radiusScales });
+    }, [simulationState, particleRadius, renderMode, camera, colors, radiusScales]);
+
+    // A half-placed polygon is dropped when switching tool or shape
+    useEffect(() => {
+      setPolygon([]);
+      setDraft(null);
+    }, [brush.tool, brush.obstacleShape]);
+
+    useEffect(() => {
+      const ctx = overlayRef.current?.getContext('2d');
+      if (!ctx) return;
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+      if (showFlow) drawFlowArrows(ctx, flowSampler, flowFrame, camera, worldWidth, worldHeight);
+      if (protocells) drawProtocells(ctx, protocells, camera);
+      const pointer = hover && polygon.length > 0 ? [screenToWorld(camera, hover.x, hover.y)] : [];
+      drawObstacles(ctx, obstacles, camera, { obstacle: draft, path: [...polygon, ...pointer] });
+    }, [obstacles, camera, draft, polygon, hover, showFlow, flowSampler, flowFrame, worldWidth, worldHeight, protocells]);
+
+    const onPointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      const { camera, brush } = useSimulationStore.getState();
+      const point = canvasPoint(e);
+      const world = screenToWorld(camera, point.x, point.y);
+      const mode = brush.tool === 'inspect' || e.button === 1 || e.shiftKey
+        ? 'view'
+        : brush.tool === 'obstacle' ? 'obstacle' : 'brush';
+      dragRef.current = { mode, lastX: e.clientX, lastY: e.clientY, travel: 0, origin: world, lastDab: world };
+      if (mode === 'brush') dab(world.x, world.y);
+    };
+
+    const onPointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+      setHover(canvasPoint(e));
+      const drag = dragRef.current;
+      if (!drag) return;
+      const dx = e.clientX - drag.lastX;
+      const dy = e.clientY - drag.lastY;
+      drag.lastX = e.clientX;
+      drag.lastY = e.clientY;
+      drag.travel += Math.hypot(dx, dy);
+      const { camera, setCamera, followedId, followParticle, brush, moveParticlesInRegion } = useSimulationStore.getState();
+
+      if (drag.mode === 'brush') {
+        const point = canvasPoint(e);
+        const world = screenToWorld(camera, point.x, point.y);
+        if (brush.tool === 'move') {
+          moveParticlesInRegion(drag.lastDab.x, drag.lastDab.y, brush.radius, world.x - drag.lastDab.x, world.y - drag.lastDab.y);
+          drag.lastDab = world;
+        } else if (brush.tool !== 'energy' && Math.hypot(world.x - drag.lastDab.x, world.y - drag.lastDab.y) >= brush.radius / 2) {
+          // Space dabs half a brush radius apart so strokes cover evenly at any pointer speed
+          dab(world.x, world.y);
+          drag.lastDab = world;
         }
+        return;
+      }
+
+      if (drag.mode === 'obstacle') {
+        const point = canvasPoint(e);
+        if (drag.travel >= CLICK_SLOP) setDraft(dragObstacle(brush, drag.origin, screenToWorld(camera, point.x, point.y)));
+        return;
       }
-    }, [simulationState]);
+
+      if (drag.travel < CLICK_SLOP) return;
+      // Dragging takes the camera back from a followed particle
+      if (followedId !== null) followParticle(null);
+      setCamera(panBy(camera, dx, dy));
+    };
+
+    const onPointerUp = (e: PointerEvent<HTMLCanvasElement>) => {
+      const drag = dragRef.current;
+      dragRef.current = null;
+      if (drag?.mode === 'obstacle') {
+        finishObstacle(e, drag);
+        return;
+      }
+      if (!drag || drag.mode !== 'view' || drag.travel >= CLICK_SLOP) return;
+      const { camera, params, brush, queryParticles } = useSimulationStore.getState();
+      if (brush.tool !== 'inspect') return;
+      const point = canvasPoint(e);
+      const world = screenToWorld(camera, point.x, point.y);
+      queryParticles(world.x, world.y, Math.max(2 * params.particleRadius, MIN_PICK_PIXELS / camera.zoom));
+    };
+
+    // Completes a drawn obstacle, adds a polygon point, or removes the clicked obstacle
+    const finishObstacle = (e: PointerEvent<HTMLCanvasElement>, drag: Drag) => {
+      const { camera, params, brush, setParams } = useSimulationStore.getState();
+      const point = canvasPoint(e);
+      const world = screenToWorld(camera, point.x, point.y);
+      setDraft(null);
+
+      if (brush.obstacleShape === 'remove') {
+        if (drag.travel >= CLICK_SLOP) return;
+        // The topmost, i.e. last placed, obstacle under the pointer goes first
+        const tolerance = MIN_PICK_PIXELS / camera.zoom;
+        let index = params.obstacles.length - 1;
+        while (index >= 0 && !obstacleHitTest(params.obstacles[index], world.x, world.y, tolerance)) index--;
+        if (index >= 0) setParams({ obstacles: params.obstacles.filter((_, i) => i !== index) });
+        return;
+      }
+
+      if (brush.obstacleShape === 'polygon') {
+        if (drag.travel >= CLICK_SLOP) return;
+        const first = polygon[0];
+        const last = polygon[polygon.length - 1];
+        const near = (p: ObstaclePoint | undefined, pixels: number) =>
+          p !== undefined && Math.hypot(p.x - world.x, p.y - world.y) * camera.zoom < pixels;
+        // Clicking the first point again, or double-clicking, closes the polygon
+        if (polygon.length >= 3 && (near(first, CLOSE_POLYGON_PIXELS) || near(last, CLICK_SLOP))) {
+          placeObstacle({ kind: 'polygon', points: polygon });
+          setPolygon([]);
+        } else if (!near(last, CLICK_SLOP)) {
+          setPolygon([...polygon, world]);
+        }
+        return;
+      }
+
+      if (drag.travel < CLICK_SLOP) return;
+      const obstacle = dragObstacle(brush, drag.origin, world);
+      if (obstacle) placeObstacle(obstacle);
+    };
+
+    const brushDiameter = 2 * brush.radius * camera.zoom;
   
-    return <canvas ref={canvasRef} className='simulation-canvas' />;
+    return (
+      <>
+        <canvas
+          key={backend}
+          ref={canvasRef}
+          className='simulation-canvas'
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={() => { dragRef.current = null; }}
+          onPointerLeave={() => setHover(null)}
+        />
+        <canvas ref={overlayRef} className='obstacle-overlay' />
+        {hover && brush.tool !== 'inspect' && brush.tool !== 'obstacle' && (
+          <div
+            className='brush-outline'
+            style={{ left: hover.x - brushDiameter / 2, top: hover.y - brushDiameter / 2, width: brushDiameter, height: brushDiameter }}
+          />
+        )}
+      </>
+    );
   }
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { useEffect, useRef } from "react";
+import { useSimulationStore } from "../store/simulationStore";
+import { reactionRates } from "../store/statsHistory";
+import { createStatsFormatter } from "../simulation/headless";
+import { downloadText } from "../utils/download";
+
+interface Series {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+const CHART_WIDTH = 272;
+const CHART_HEIGHT = 110;
+
+/**
+ * A small line chart with a shared y axis starting at zero.
+ */
+function LineChart({ title, series, frames }: { title: string; series: Series[]; frames: number[] }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    context.clearRect(0, 0, CHART_WIDTH, CHART_HEIGHT);
+    context.fillStyle = '#1a1a1a';
+    context.fillRect(0, 0, CHART_WIDTH, CHART_HEIGHT);
+    if (frames.length < 2) return;
+
+    const maxValue = Math.max(1e-9, ...series.flatMap((s) => s.values));
+    const firstFrame = frames[0];
+    const span = Math.max(1, frames[frames.length - 1] - firstFrame);
+    const toX = (frame: number) => ((frame - firstFrame) / span) * CHART_WIDTH;
+    const toY = (value: number) => CHART_HEIGHT - 2 - (value / maxValue) * (CHART_HEIGHT - 14);
+
+    for (const s of series) {
+      context.beginPath();
+      s.values.forEach((value, i) => {
+        if (i === 0) context.moveTo(toX(frames[i]), toY(value));
+        else context.lineTo(toX(frames[i]), toY(value));
+      });
+      context.strokeStyle = s.color;
+      context.lineWidth = 1.5;
+      context.stroke();
+    }
+
+    // Scale and time range labels
+    context.fillStyle = '#aaa';
+    context.font = '10px system-ui';
+    context.textBaseline = 'top';
+    context.fillText(maxValue < 10 ? maxValue.toFixed(2) : Math.round(maxValue).toString(), 2, 1);
+    const range = `frames ${firstFrame}–${frames[frames.length - 1]}`;
+    context.fillText(range, CHART_WIDTH - context.measureText(range).width - 2, 1);
+  }, [series, frames]);
+
+  return (
+    <div className='chart'>
+      <div className='chart-title'>{title}</div>
+      <canvas ref={canvasRef} width={CHART_WIDTH} height={CHART_HEIGHT} />
+    </div>
+  );
+}
+
+/**
+ * Live time-series charts of the recorded stats history.
+ */
+export default function Charts() {
+  const history = useSimulationStore((state) => state.history);
+  const species = useSimulationStore((state) => state.params.species);
+  const { samples, stride } = history;
+  const frames = samples.map((s) => s.frameCount);
+
+  // Population series share the species colors used by the renderer and the stats legend
+  const populations: Series[] = species.map(({ name, color }, type) => ({
+    label: name,
+    color,
+    values: samples.map((s) => s.speciesCounts[type] ?? 0),
+  }));
+  const energy: Series[] = [
+    { label: 'Energy', color: 'rgb(255, 255, 100)', values: samples.map((s) => s.energyParticleCount) },
+  ];
+  const rate: Series[] = [
+    { label: 'Reactions / frame', color: 'rgb(120, 220, 255)', values: reactionRates(samples) },
+  ];
+  const protocells: Series[] = [
+    { label: 'Protocells', color: 'rgb(120, 255, 180)', values: samples.map((s) => s.protocellCount) },
+  ];
+  const generations: Series[] = [
+    { label: 'Mean', color: 'rgb(255, 180, 120)', values: samples.map((s) => s.meanGeneration) },
+    { label: 'Max', color: 'rgb(200, 120, 80)', values: samples.map((s) => s.maxGeneration) },
+  ];
+
+  const downloadCsv = () => {
+    const format = createStatsFormatter('csv', species.map((s) => s.name));
+    downloadText(`stats-history-${frames[0] ?? 0}-${frames[frames.length - 1] ?? 0}.csv`, samples.map(format).join(''), 'text/csv');
+  };
+
+  return (
+    <div className='charts'>
+      <h4>History</h4>
+      <LineChart title='Populations' series={populations} frames={frames} />
+      <LineChart title='Energy Particles' series={energy} frames={frames} />
+      <LineChart title='Reaction Rate (per frame)' series={rate} frames={frames} />
+      <LineChart title='Protocells' series={protocells} frames={frames} />
+      <LineChart title='Generation' series={generations} frames={frames} />
+      <div className='chart-footer'>
+        <span>{samples.length} samples, every {stride} frame{stride > 1 ? 's' : ''}</span>
+        <button onClick={downloadCsv} disabled={samples.length === 0}>Download CSV</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useSimulationStore } from "../store/simulationStore";
+import type { EnergySource, EnergySourceShape, EnergyWaveform } from "../simulation/types";
+import { defaultEnergySource } from "../simulation/defaults";
+import NumberField from "./numberField";
+
+// Starting values when switching a source to another shape or waveform
+const defaultShapes: Record<EnergySourceShape['kind'], EnergySourceShape> = {
+  rect: { kind: 'rect', x: 0, y: 0, width: 0.025, height: 1 },
+  disc: { kind: 'disc', x: 0.5, y: 0.5, radius: 30 },
+};
+
+const defaultWaveforms: Record<EnergyWaveform['kind'], EnergyWaveform> = {
+  constant: { kind: 'constant' },
+  square: { kind: 'square', periodFrames: 1000, dutyCycle: 0.5 },
+  sine: { kind: 'sine', periodFrames: 2000 },
+  bursts: { kind: 'bursts', probability: 0.005, durationFrames: 60 },
+};
+
+// Ready-made regimes to start experiments from
+const presets: { label: string; source: EnergySource }[] = [
+  { label: 'Left Strip', source: defaultEnergySource },
+  {
+    label: 'Day/Night',
+    source: {
+      shape: { kind: 'rect', x: 0, y: 0, width: 1, height: 0.025 },
+      rate: 3,
+      direction: 90,
+      speed: 1,
+      turbulence: 0.6,
+      waveform: { kind: 'sine', periodFrames: 3000 },
+    },
+  },
+  {
+    label: 'Vent',
+    source: {
+      shape: { kind: 'disc', x: 0.5, y: 0.95, radius: 15 },
+      rate: 2,
+      direction: 270,
+      speed: 1.5,
+      turbulence: 1,
+      waveform: { kind: 'bursts', probability: 0.01, durationFrames: 90 },
+    },
+  },
+];
+
+/**
+ * Settings of one energy source: region, rate, flow and waveform.
+ */
+function SourceEditor({ index, source, onChange, onRemove }: {
+  index: number;
+  source: EnergySource;
+  onChange: (source: EnergySource) => void;
+  onRemove: () => void;
+}) {
+  const { shape, waveform } = source;
+  const setShape = (patch: Partial<EnergySourceShape>) => onChange({ ...source, shape: { ...shape, ...patch } as EnergySourceShape });
+  const setWaveform = (patch: Partial<EnergyWaveform>) => onChange({ ...source, waveform: { ...waveform, ...patch } as EnergyWaveform });
+
+  return (
+    <div className='param-card'>
+      <div className='param-card-header'>
+        <span>Source {index + 1}</span>
+        <button onClick={onRemove}>Remove</button>
+      </div>
+      <div className='param-fields'>
+        <label>
+          Shape
+          <select value={shape.kind} onChange={(e) => onChange({ ...source, shape: defaultShapes[e.target.value as EnergySourceShape['kind']] })}>
+            <option value='rect'>Rectangle</option>
+            <option value='disc'>Disc</option>
+          </select>
+        </label>
+        <NumberField label='X (fraction)' value={shape.x} step={0.01} min={0} max={1} onChange={(x) => setShape({ x })} />
+        <NumberField label='Y (fraction)' value={shape.y} step={0.01} min={0} max={1} onChange={(y) => setShape({ y })} />
+        {shape.kind === 'rect' ? (
+          <>
+            <NumberField label='Width (fraction)' value={shape.width} step={0.005} min={0} max={1} onChange={(width) => setShape({ width })} />
+            <NumberField label='Height (fraction)' value={shape.height} step={0.005} min={0} max={1} onChange={(height) => setShape({ height })} />
+          </>
+        ) : (
+          <NumberField label='Radius' value={shape.radius} step={1} min={0} onChange={(radius) => setShape({ radius })} />
+        )}
+        <NumberField label='Rate (per frame)' value={source.rate} step={0.1} min={0} onChange={(rate) => onChange({ ...source, rate })} />
+        <NumberField label='Direction (°)' value={source.direction} step={5} onChange={(direction) => onChange({ ...source, direction })} />
+        <NumberField label='Speed' value={source.speed} step={0.1} min={0} onChange={(speed) => onChange({ ...source, speed })} />
+        <NumberField label='Turbulence' value={source.turbulence} step={0.05} min={0} onChange={(turbulence) => onChange({ ...source, turbulence })} />
+        <label>
+          Waveform
+          <select value={waveform.kind} onChange={(e) => onChange({ ...source, waveform: defaultWaveforms[e.target.value as EnergyWaveform['kind']] })}>
+            <option value='constant'>Constant</option>
+            <option value='square'>Square</option>
+            <option value='sine'>Sine</option>
+            <option value='bursts'>Random bursts</option>
+          </select>
+        </label>
+        {(waveform.kind === 'square' || waveform.kind === 'sine') && (
+          <NumberField label='Period (frames)' value={waveform.periodFrames} step={60} min={1} onChange={(periodFrames) => setWaveform({ periodFrames })} />
+        )}
+        {waveform.kind === 'square' && (
+          <NumberField label='Duty Cycle' value={waveform.dutyCycle} step={0.05} min={0} max={1} onChange={(dutyCycle) => setWaveform({ dutyCycle })} />
+        )}
+        {waveform.kind === 'bursts' && (
+          <>
+            <NumberField label='Burst Chance (per frame)' value={waveform.probability} step={0.001} min={0} max={1} onChange={(probability) => setWaveform({ probability })} />
+            <NumberField label='Burst Length (frames)' value={waveform.durationFrames} step={10} min={1} onChange={(durationFrames) => setWaveform({ durationFrames })} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Editor for the energy sources feeding the world. Changes apply immediately;
+ * particles already in flight keep the flow they were spawned with.
+ */
+export default function EnergySources() {
+  const sources = useSimulationStore((state) => state.params.energySources);
+  const setParams = useSimulationStore((state) => state.setParams);
+  const setSources = (energySources: EnergySource[]) => setParams({ energySources });
+
+  return (
+    <div className='energy-sources'>
+      <h4>Energy Sources</h4>
+      {sources.length === 0 && <p className='inspector-hint'>No energy flows in.</p>}
+      {sources.map((source, i) => (
+        <SourceEditor
+          key={i}
+          index={i}
+          source={source}
+          onChange={(next) => setSources(sources.map((s, j) => (j === i ? next : s)))}
+          onRemove={() => setSources(sources.filter((_, j) => j !== i))}
+        />
+      ))}
+      <div className='energy-source-presets'>
+        {presets.map(({ label, source }) => (
+          <button key={label} onClick={() => setSources([...sources, source])}>Add {label}</button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useSimulationStore } from "../store/simulationStore";
+import type { FlowField, Vortex } from "../simulation/types";
+import NumberField from "./numberField";
+
+// Starting values when switching to another kind of flow
+const defaultFields: Record<FlowField['kind'], FlowField> = {
+  uniform: { kind: 'uniform', vx: 0.4, vy: 0 },
+  poiseuille: { kind: 'poiseuille', maxSpeed: 0.8 },
+  vortices: {
+    kind: 'vortices',
+    vortices: [
+      { x: 0.35, y: 0.5, radius: 60, strength: 0.8 },
+      { x: 0.65, y: 0.5, radius: 60, strength: -0.8 },
+    ],
+  },
+  noise: { kind: 'noise', strength: 0.2, scale: 150, evolution: 0.002 },
+};
+
+const newVortex: Vortex = { x: 0.5, y: 0.5, radius: 60, strength: 0.8 };
+
+/**
+ * Editor for the background flow field, how strongly energy follows it, and
+ * whether its arrows are drawn over the canvas. Changes apply immediately.
+ */
+export default function FlowFieldEditor() {
+  const flow = useSimulationStore((state) => state.params.flow);
+  const energyFlowCoupling = useSimulationStore((state) => state.params.energyFlowCoupling);
+  const setParams = useSimulationStore((state) => state.setParams);
+  const showFlow = useSimulationStore((state) => state.showFlow);
+  const setShowFlow = useSimulationStore((state) => state.setShowFlow);
+  const setFlow = (next: FlowField) => setParams({ flow: next });
+
+  const setVortex = (index: number, patch: Partial<Vortex>) => {
+    if (flow.kind !== 'vortices') return;
+    setFlow({ ...flow, vortices: flow.vortices.map((v, i) => (i === index ? { ...v, ...patch } : v)) });
+  };
+
+  return (
+    <div className='flow-field'>
+      <h4>Flow Field</h4>
+      <div className='param-fields'>
+        <label>
+          Kind
+          <select value={flow.kind} onChange={(e) => setFlow(defaultFields[e.target.value as FlowField['kind']])}>
+            <option value='uniform'>Uniform</option>
+            <option value='poiseuille'>Laminar channel (Poiseuille)</option>
+            <option value='vortices'>Vortices</option>
+            <option value='noise'>Turbulence (simplex noise)</option>
+          </select>
+        </label>
+        {flow.kind === 'uniform' && (
+          <>
+            <NumberField label='Velocity X' value={flow.vx} step={0.05} onChange={(vx) => setFlow({ ...flow, vx })} />
+            <NumberField label='Velocity Y' value={flow.vy} step={0.05} onChange={(vy) => setFlow({ ...flow, vy })} />
+          </>
+        )}
+        {flow.kind === 'poiseuille' && (
+          <NumberField label='Centerline Speed' value={flow.maxSpeed} step={0.05} onChange={(maxSpeed) => setFlow({ ...flow, maxSpeed })} />
+        )}
+        {flow.kind === 'noise' && (
+          <>
+            <NumberField label='Strength' value={flow.strength} step={0.05} onChange={(strength) => setFlow({ ...flow, strength })} />
+            <NumberField label='Eddy Size' value={flow.scale} step={10} onChange={(scale) => setFlow({ ...flow, scale })} />
+            <NumberField label='Evolution (per frame)' value={flow.evolution} step={0.001} onChange={(evolution) => setFlow({ ...flow, evolution })} />
+          </>
+        )}
+      </div>
+
+      {flow.kind === 'vortices' && (
+        <>
+          {flow.vortices.map((vortex, i) => (
+            <div className='param-card' key={i}>
+              <div className='param-card-header'>
+                <span>Vortex {i + 1}</span>
+                <button onClick={() => setFlow({ ...flow, vortices: flow.vortices.filter((_, j) => j !== i) })}>Remove</button>
+              </div>
+              <div className='param-fields'>
+                <NumberField label='X (fraction)' value={vortex.x} step={0.01} onChange={(x) => setVortex(i, { x })} />
+                <NumberField label='Y (fraction)' value={vortex.y} step={0.01} onChange={(y) => setVortex(i, { y })} />
+                <NumberField label='Core Radius' value={vortex.radius} step={5} onChange={(radius) => setVortex(i, { radius })} />
+                <NumberField label='Strength' value={vortex.strength} step={0.05} onChange={(strength) => setVortex(i, { strength })} />
+              </div>
+            </div>
+          ))}
+          <button onClick={() => setFlow({ ...flow, vortices: [...flow.vortices, newVortex] })}>Add Vortex</button>
+        </>
+      )}
+
+      <label className='flow-coupling'>
+        Energy Follows Flow
+        <input type='range' min={0} max={1} step={0.05} value={energyFlowCoupling}
+          onChange={(e) => setParams({ energyFlowCoupling: parseFloat(e.target.value) })} />
+        <span>{Math.round(energyFlowCoupling * 100)}%</span>
+      </label>
+      <label className='brush-checkbox'>
+        <input type='checkbox' checked={showFlow} onChange={(e) => setShowFlow(e.target.checked)} />
+        Show flow arrows
+      </label>
+    </div>
+  );
+}
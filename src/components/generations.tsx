@@ -0,0 +1,43 @@
+import { useSimulationStore } from "../store/simulationStore";
+import { speciesName } from "../simulation/species";
+
+/**
+ * Generation depth of each species, telling particles made by reactions apart
+ * from those left over from seeding.
+ */
+export default function Generations() {
+  const generations = useSimulationStore((state) => state.simulationState?.generations);
+  const species = useSimulationStore((state) => state.params.species);
+
+  return (
+    <div className='generations'>
+      <h4>Generations</h4>
+      {!generations || generations.length === 0 ? (
+        <p className='inspector-hint'>No substrate particles.</p>
+      ) : (
+        <table>
+          <thead>
+            <tr>
+              <th>Species</th>
+              <th>Count</th>
+              <th>Mean</th>
+              <th>Max</th>
+              <th>Originals</th>
+            </tr>
+          </thead>
+          <tbody>
+            {generations.map((g) => (
+              <tr key={g.type}>
+                <td>{speciesName(species, g.type)}</td>
+                <td>{g.count}</td>
+                <td>{g.meanGeneration.toFixed(1)}</td>
+                <td>{g.maxGeneration}</td>
+                <td>{g.originals}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
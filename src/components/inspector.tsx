@@ -0,0 +1,128 @@
+import { useSimulationStore } from "../store/simulationStore";
+import type { Ancestry, ParticleId, ParticleInfo, ParticleOrigin } from "../simulation/types";
+import { formatReaction } from "../simulation/reactions";
+import { speciesName } from "../simulation/species";
+import { defaultCamera } from "../rendering/camera";
+
+/** Where a particle came from, e.g. "from #40 (cat. #12) via r3" */
+function formatOrigin(origin: ParticleOrigin | null): string {
+  if (!origin) return 'placed, not produced';
+  const reactants = origin.reactantIds.map((id) => `#${id}`).join(' + ');
+  const catalyst = origin.catalystId === null ? '' : ` (cat. #${origin.catalystId})`;
+  return `from ${reactants}${catalyst} via ${origin.reactionId}`;
+}
+
+/**
+ * Details of one particle, with buttons to follow it and to trace its ancestry.
+ */
+function ParticleDetails({ particle, lifespan, following, onFollow, onTrace }: {
+  particle: ParticleInfo;
+  lifespan: number;
+  following: boolean;
+  onFollow: (id: ParticleId | null) => void;
+  onTrace: (id: ParticleId) => void;
+}) {
+  const species = useSimulationStore((state) => state.params.species);
+
+  return (
+    <div className='inspector-item'>
+      <div className='inspector-header'>
+        <span>#{particle.id} {speciesName(species, particle.type)}</span>
+        <span className='inspector-actions'>
+          <button onClick={() => onTrace(particle.id)}>Ancestry</button>
+          <button onClick={() => onFollow(following ? null : particle.id)}>{following ? 'Unfollow' : 'Follow'}</button>
+        </span>
+      </div>
+      <div className='inspector-meta'>
+        Age {particle.age} frames ({Math.round((particle.age / lifespan) * 100)}% of lifespan) · born at frame {particle.birthFrame} · energy {particle.energy.toFixed(2)} · stored {particle.storedEnergy.toFixed(2)}
+      </div>
+      <div className='inspector-meta'>
+        Generation {particle.generation} · {formatOrigin(particle.origin)} · {particle.offspring} offspring
+      </div>
+      {particle.reactions.length === 0 && <div className='inspector-meta'>Takes part in no catalog reactions.</div>}
+      <ul>
+        {particle.reactions.map((r) => <li key={r.id}>{formatReaction(r, species)}</li>)}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Ancestry chain of one particle, nearest ancestors first.
+ */
+function AncestryList({ ancestry, onClose }: { ancestry: Ancestry; onClose: () => void }) {
+  const species = useSimulationStore((state) => state.params.species);
+
+  return (
+    <div className='inspector-item'>
+      <div className='inspector-header'>
+        <span>Ancestry of #{ancestry.id}</span>
+        <button onClick={onClose}>Close</button>
+      </div>
+      {ancestry.records.length === 0 && <div className='inspector-meta'>The particle is gone and not remembered.</div>}
+      <ul>
+        {ancestry.records.map((r) => (
+          <li key={r.id}>
+            #{r.id} {speciesName(species, r.type)} · gen {r.generation} · born {r.birthFrame} · {formatOrigin(r.origin)}
+          </li>
+        ))}
+      </ul>
+      {!ancestry.complete && <div className='inspector-meta'>Older ancestors are no longer remembered or beyond the listing limit.</div>}
+    </div>
+  );
+}
+
+/**
+ * Camera controls and details of the particles picked on the canvas.
+ */
+export default function Inspector() {
+  const camera = useSimulationStore((state) => state.camera);
+  const setCamera = useSimulationStore((state) => state.setCamera);
+  const inspected = useSimulationStore((state) => state.inspected);
+  const clearInspection = useSimulationStore((state) => state.clearInspection);
+  const followedId = useSimulationStore((state) => state.followedId);
+  const followed = useSimulationStore((state) => state.followed);
+  const followParticle = useSimulationStore((state) => state.followParticle);
+  const lifespan = useSimulationStore((state) => state.params.particleLifespan);
+  const ancestry = useSimulationStore((state) => state.ancestry);
+  const queryAncestry = useSimulationStore((state) => state.queryAncestry);
+  const clearAncestry = useSimulationStore((state) => state.clearAncestry);
+
+  const resetView = () => {
+    followParticle(null);
+    setCamera(defaultCamera);
+  };
+
+  return (
+    <div className='inspector'>
+      <h4>Inspector</h4>
+      <div className='inspector-view'>
+        <span>Zoom {camera.zoom.toFixed(2)}×</span>
+        <button onClick={resetView}>Reset View</button>
+      </div>
+      <p className='inspector-hint'>Scroll on the canvas to zoom. Click particles with the Inspect tool to list them here.</p>
+
+      {followedId !== null && (
+        followed
+          ? <ParticleDetails particle={followed} lifespan={lifespan} following onFollow={followParticle} onTrace={queryAncestry} />
+          : <p className='inspector-hint'>Following #{followedId}…</p>
+      )}
+
+      {inspected && (
+        <>
+          <div className='inspector-view'>
+            <span>
+              {inspected.particles.length} particle{inspected.particles.length === 1 ? '' : 's'} near ({inspected.x.toFixed(0)}, {inspected.y.toFixed(0)})
+            </span>
+            <button onClick={clearInspection}>Clear</button>
+          </div>
+          {inspected.particles
+            .filter((p) => p.id !== followedId)
+            .map((p) => <ParticleDetails key={p.id} particle={p} lifespan={lifespan} following={false} onFollow={followParticle} onTrace={queryAncestry} />)}
+        </>
+      )}
+
+      {ancestry && <AncestryList ancestry={ancestry} onClose={clearAncestry} />}
+    </div>
+  );
+}
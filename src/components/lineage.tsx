@@ -0,0 +1,25 @@
+import { useSimulationStore } from "../store/simulationStore";
+
+/**
+ * Summary of the binder cluster genealogy, with downloads for offline analysis.
+ */
+export default function Lineage() {
+  const stats = useSimulationStore((state) => state.stats);
+  const exportGenealogy = useSimulationStore((state) => state.exportGenealogy);
+
+  return (
+    <div className='lineage'>
+      <h4>Cluster Lineages</h4>
+      <p className='inspector-hint'>
+        Binder clusters are followed between analyses; a division ends a lineage and founds one per daughter.
+      </p>
+      <p>Tracked clusters: {stats.lineageCount || 0}</p>
+      <p>Divisions: {stats.fissionEvents || 0}</p>
+      <p>Fusions: {stats.fusionEvents || 0}</p>
+      <div className='control-group'>
+        <button onClick={() => exportGenealogy('json')}>Export JSON</button>
+        <button onClick={() => exportGenealogy('newick')}>Export Newick</button>
+      </div>
+    </div>
+  );
+}
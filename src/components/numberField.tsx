@@ -0,0 +1,28 @@
+/**
+ * Labelled number input that reports parsed values, ignoring incomplete entries.
+ */
+export default function NumberField({ label, value, step, min, max, onChange }: {
+  label: string;
+  value: number;
+  step: number;
+  min?: number;
+  max?: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label>
+      {label}
+      <input
+        type='number'
+        value={value}
+        step={step}
+        min={min}
+        max={max}
+        onChange={(e) => {
+          const parsed = parseFloat(e.target.value);
+          if (Number.isFinite(parsed)) onChange(parsed);
+        }}
+      />
+    </label>
+  );
+}
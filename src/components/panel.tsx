@@ -1,10 +1,32 @@
+import type { ChangeEvent } from "react";
 import { useSimulationStore } from "../store/simulationStore";
+import { randomSeed } from "../simulation/random";
+import type { SimulationParams, SimulationSnapshot } from "../simulation/types";
+import type { RendererPreference, RenderMode } from "../rendering/renderer";
+import ReactionEditor from "./reactionEditor";
+import Charts from "./charts";
+import Autocatalysis from "./autocatalysis";
+import Inspector from "./inspector";
+import Generations from "./generations";
+import BrushTools from "./brushTools";
+import Boundaries from "./boundaries";
+import EnergySources from "./energySources";
+import FlowFieldEditor from "./flowField";
+import Protocells from "./protocells";
+import Lineage from "./lineage";
+import SpeciesEditor from "./species";
+import ThermodynamicsEditor from "./thermodynamics";
+
+// Params that can be driven by a slider
+type NumericParamKey = {
+ [K in keyof SimulationParams]: SimulationParams[K] extends number ? K : never
+}[keyof SimulationParams];
 
 /**
 * Provides UI controls for the simulation.
 */
 interface ControlConfig {
- key: string;
+ key: NumericParamKey;
  label: string;
  min: number;
  max: number;
@@ -15,7 +37,21 @@ interface ControlConfig {
 }
 
 export default function Controls() {
- const { start, stop, reset, isRunning, params, setParams, stats } = useSimulationStore();
+ const { start, stop, reset, isRunning, params, setParams, stats, exportSnapshot, loadSnapshot, snapshotError, setSnapshotError } = useSimulationStore();
+ const { rendererPreference, activeRenderer, setRendererPreference, renderMode, setRenderMode } = useSimulationStore();
+
+ // Read a snapshot file chosen by the user and hand it to the worker
+ const onSnapshotFile = async (e: ChangeEvent<HTMLInputElement>) => {
+   const file = e.target.files?.[0];
+   e.target.value = '';
+   if (!file) return;
+   try {
+     loadSnapshot(JSON.parse(await file.text()) as SimulationSnapshot);
+   } catch (error) {
+     console.error('Could not read snapshot file:', error);
+     setSnapshotError((error as Error).message);
+   }
+ };
 
  // Define all control configurations in a single array
  const controlConfigs: ControlConfig[] = [
@@ -30,16 +66,6 @@ export default function Controls() {
      parser: parseInt,
      section: 'Physics'
    },
-   {
-     key: 'current',
-     label: 'Current (right bias)',
-     min: 0,
-     max: 3,
-     step: 0.05,
-     formatter: (value) => value.toFixed(2),
-     parser: parseFloat,
-     section: 'Physics'
-   },
    {
      key: 'attractorForceUnitDistanceInR',
      label: 'Attractor Unit Dist (r)',
@@ -50,16 +76,6 @@ export default function Controls() {
      parser: parseInt,
      section: 'Reactions'
    },
-   {
-     key: 'energyPulsePeriodFrames',
-     label: 'Energy Pulse Period',
-     min: 120,
-     max: 6000,
-     step: 60,
-     formatter: (value) => value.toString() + ' frames',
-     parser: parseInt,
-     section: 'Reactions'
-   },
    {
      key: 'randomStepMagnitudeX',
      label: 'Random Step X',
@@ -111,6 +127,16 @@ export default function Controls() {
      formatter: (value) => value.toString() + ' r',
      parser: parseInt,
      section: 'Reactions'
+   },
+   {
+     key: 'discoveryProbability',
+     label: 'Discovery Probability',
+     min: 0,
+     max: 0.2,
+     step: 0.005,
+     formatter: (value) => value > 0 ? (value * 100).toFixed(1) + '%' : 'off',
+     parser: parseFloat,
+     section: 'Reactions'
    }
  ];
 
@@ -130,21 +156,73 @@ export default function Controls() {
        <button onClick={stop} disabled={!isRunning}>Stop</button>
        <button onClick={reset}>Reset</button>
      </div>
+
+     <div className='control-group'>
+       <button onClick={exportSnapshot}>Save Snapshot</button>
+       <label className='file-button'>
+         Load Snapshot
+         <input type='file' accept='application/json,.json' onChange={onSnapshotFile} />
+       </label>
+     </div>
+     {snapshotError && <p className='snapshot-error'>Could not load snapshot: {snapshotError}</p>}
      
+     <div className='seed-control'>
+       <label>
+         Seed (applies on reset)
+         <input
+           type='number'
+           min={0}
+           step={1}
+           value={params.seed}
+           onChange={(e) => setParams({ seed: Math.max(0, parseInt(e.target.value) || 0) })}
+         />
+       </label>
+       <button onClick={() => setParams({ seed: randomSeed() })}>Randomize</button>
+     </div>
+
+     <div className='renderer-control'>
+       <label>
+         Renderer (active: {activeRenderer === 'webgl2' ? 'WebGL2' : activeRenderer === 'canvas2d' ? 'Canvas 2D' : 'none'})
+         <select
+           value={rendererPreference}
+           onChange={(e) => setRendererPreference(e.target.value as RendererPreference)}
+         >
+           <option value='auto'>Auto</option>
+           <option value='webgl2'>WebGL2</option>
+           <option value='canvas2d'>Canvas 2D</option>
+         </select>
+       </label>
+       <label>
+         Color By
+         <select value={renderMode} onChange={(e) => setRenderMode(e.target.value as RenderMode)}>
+           <option value='type'>Type</option>
+           <option value='energy'>Reaction energy (glow)</option>
+           <option value='age'>Age (fade)</option>
+         </select>
+       </label>
+     </div>
+
      <div className='stats-display'>
        <h4>System Stats</h4>
        <p>Frame: {stats.frameCount || 0}</p>
-       <p><span className="particle-color-swatch" style={{ backgroundColor: 'rgb(50, 100, 255)' }}></span>A Particles: {stats.particleCountA || 0}</p>
-       <p><span className="particle-color-swatch" style={{ backgroundColor: 'rgb(255, 50, 50)' }}></span>B Particles: {stats.particleCountB || 0}</p>
-       <p><span className="particle-color-swatch" style={{ backgroundColor: 'rgb(50, 255, 50)' }}></span>C Particles: {stats.particleCountC || 0}</p>
-       <p><span className="particle-color-swatch" style={{ backgroundColor: 'rgb(200, 50, 255)' }}></span>D Particles: {stats.particleCountD || 0}</p>
-       <p><span className="particle-color-swatch" style={{ backgroundColor: 'rgb(255, 150, 200)' }}></span>E Particles: {stats.particleCountE || 0}</p>
-       <p><span className="particle-color-swatch" style={{ backgroundColor: 'rgb(200, 200, 200)' }}></span>Binder Particles: {stats.particleCountBinder || 0}</p>
-       <p><span className="particle-color-swatch" style={{ backgroundColor: 'rgb(255, 200, 50)' }}></span>Attractor Particles: {stats.particleCountAttractor || 0}</p>
+       {params.species.map((species, type) => (
+         <p key={type}><span className="particle-color-swatch" style={{ backgroundColor: species.color }}></span>{species.name} Particles: {stats.speciesCounts?.[type] || 0}</p>
+       ))}
        <p><span className="particle-color-swatch" style={{ backgroundColor: 'rgb(255, 255, 100)' }}></span>Energy Particles: {stats.energyParticleCount || 0}</p>
        <p>Total Reactions: {stats.totalReactions || 0}</p>
+       <p>Discovered Reactions: {stats.discoveredReactions || 0}</p>
+       <p>Failed Efficiency Rolls: {stats.failedEfficiencyRolls || 0}</p>
+       <p>Uncatalogued Encounters: {stats.uncatalogedEncounters || 0}</p>
      </div>
 
+     <BrushTools />
+
+     <Inspector />
+
+     <Generations />
+
+     <Charts />
+
      <div className='params-editor'>
        {Object.entries(controlsBySection).map(([sectionName, controls]) => (
          <div key={sectionName}>
@@ -157,15 +235,33 @@ export default function Controls() {
                  min={config.min}
                  max={config.max}
                  step={config.step}
-                 value={params[config.key as keyof typeof params]}
+                 value={params[config.key]}
                  onChange={(e) => setParams({ [config.key]: config.parser(e.target.value) } as Partial<typeof params>)}
                />
-               <span>{config.formatter(params[config.key as keyof typeof params])}</span>
+               <span>{config.formatter(params[config.key])}</span>
              </label>
            ))}
          </div>
        ))}
      </div>
+
+     <SpeciesEditor />
+
+     <FlowFieldEditor />
+
+     <EnergySources />
+
+     <ThermodynamicsEditor />
+
+     <Boundaries />
+
+     <ReactionEditor />
+
+     <Autocatalysis />
+
+     <Protocells />
+
+     <Lineage />
    </div>
  );
 }
@@ -0,0 +1,52 @@
+import { useSimulationStore } from "../store/simulationStore";
+import type { Protocell, Species } from "../simulation/types";
+import { speciesName } from "../simulation/species";
+
+// Largest compartments listed; the rest only count towards the summary
+const MAX_LISTED = 20;
+
+function formatContents(contents: Protocell['contents'], species: Species[]): string {
+  const entries = Object.entries(contents) as [string, number][];
+  if (entries.length === 0) return 'empty';
+  return entries.map(([type, n]) => `${n} ${speciesName(species, Number(type))}`).join(', ');
+}
+
+/**
+ * Lists the compartments enclosed by binder membranes and toggles their
+ * outlines on the canvas.
+ */
+export default function Protocells() {
+  const protocells = useSimulationStore((state) => state.simulationState?.protocells);
+  const stats = useSimulationStore((state) => state.stats);
+  const species = useSimulationStore((state) => state.params.species);
+  const showProtocells = useSimulationStore((state) => state.showProtocells);
+  const setShowProtocells = useSimulationStore((state) => state.setShowProtocells);
+
+  const listed = [...(protocells ?? [])].sort((a, b) => b.area - a.area).slice(0, MAX_LISTED);
+
+  return (
+    <div className='protocells'>
+      <h4>Protocells</h4>
+      <label className='protocell-toggle'>
+        <input type='checkbox' checked={showProtocells} onChange={(e) => setShowProtocells(e.target.checked)} />
+        Outline protocells
+      </label>
+      {listed.length === 0 ? (
+        <p className='inspector-hint'>No closed membranes.</p>
+      ) : (
+        <>
+          <p className='inspector-hint'>
+            {stats.protocellCount || 0} enclosed · mean area {(stats.protocellMeanArea || 0).toFixed(0)} · {stats.protocellContents || 0} substrates inside
+          </p>
+          <ul className='protocell-list'>
+            {listed.map((cell, i) => (
+              <li key={i}>
+                Area {cell.area.toFixed(0)} · membrane {cell.membraneSize} · {formatContents(cell.contents, species)}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import type { ChangeEvent } from "react";
+import { useSimulationStore } from "../store/simulationStore";
+import { ParticleType } from "../simulation/types";
+import type { Reaction, Species } from "../simulation/types";
+import { DEFAULT_REACTION_ENERGY, MAX_PARTICIPANTS, MAX_PRODUCTS, REACTION_CATALOG_VERSION, createDefaultReactions, formatReaction, getReactionKey, nextReactionId, parseReactionCatalog, reactionParticipants } from "../simulation/reactions";
+import type { ReactionCatalogFile } from "../simulation/reactions";
+import { speciesName, speciesTypes } from "../simulation/species";
+import { downloadText } from "../utils/download";
+
+/**
+ * Dropdown over all registered species, with a "None" choice when `noneLabel` is given.
+ */
+function TypeSelect({ value, onChange, noneLabel, species }: {
+  value: ParticleType | null;
+  onChange: (type: ParticleType | null) => void;
+  noneLabel?: string;
+  species: Species[];
+}) {
+  return (
+    <select value={value ?? ''} onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value) as ParticleType)}>
+      {noneLabel !== undefined && <option value=''>{noneLabel}</option>}
+      {speciesTypes(species).map((type) => <option key={type} value={type}>{speciesName(species, type)}</option>)}
+    </select>
+  );
+}
+
+/**
+ * One side of a reaction: a dropdown per particle, with buttons to drop one
+ * while more than `min` remain and to add one while fewer than `max` are listed.
+ */
+function TypeList({ types, onChange, min, max, species }: {
+  types: ParticleType[];
+  onChange: (types: ParticleType[]) => void;
+  min: number;
+  max: number;
+  species: Species[];
+}) {
+  return (
+    <>
+      {types.length === 0 && '∅'}
+      {types.map((type, k) => (
+        <span key={k} className='reaction-term'>
+          {k > 0 && '+'}
+          <TypeSelect value={type} onChange={(t) => onChange(types.map((u, j) => (j === k ? t ?? u : u)))} species={species} />
+          {types.length > min && (
+            <button className='reaction-term-button' onClick={() => onChange(types.filter((_, j) => j !== k))} title='Remove'>−</button>
+          )}
+        </span>
+      ))}
+      {types.length < max && (
+        <button className='reaction-term-button' onClick={() => onChange([...types, ParticleType.A])} title='Add'>+</button>
+      )}
+    </>
+  );
+}
+
+/**
+ * Editor for the reaction catalog. Every edit is sent to the worker immediately
+ * and becomes the catalog used on subsequent resets.
+ */
+export default function ReactionEditor() {
+  const { reactions, reactionsError, setReactions, discoveries, simulationState } = useSimulationStore();
+  const species = useSimulationStore((state) => state.params.species);
+  const thermodynamic = useSimulationStore((state) => state.params.thermodynamics.enabled);
+
+  // Latest firing statistics from the worker, by reaction id
+  const fluxById = new Map(simulationState?.reactionFlux.map((f) => [f.id, f]) ?? []);
+
+  // Reactions with the same participants compete for each encounter
+  const participantCounts = new Map<string, number>();
+  const participantKey = (r: Reaction) => getReactionKey(...reactionParticipants(r));
+  for (const r of reactions) participantCounts.set(participantKey(r), (participantCounts.get(participantKey(r)) ?? 0) + 1);
+
+  const update = (index: number, changes: Partial<Reaction>) => {
+    const next = reactions.map((r, i) => (i === index ? { ...r, ...changes } : r));
+    const edited = next[index];
+    // Make room for a newly added catalyst by dropping the last reactant
+    if (reactionParticipants(edited).length > MAX_PARTICIPANTS) {
+      edited.reactants = edited.reactants.slice(0, MAX_PARTICIPANTS - 1);
+    }
+    setReactions(next);
+  };
+
+  // Adopt a discovered reaction into the catalog, renaming it if its id is taken
+  const keep = (reaction: Reaction) => {
+    const taken = reactions.some((r) => r.id === reaction.id);
+    setReactions([...reactions, taken ? { ...reaction, id: nextReactionId(reactions) } : reaction]);
+  };
+
+  const remove = (index: number) => setReactions(reactions.filter((_, i) => i !== index));
+
+  const add = () => setReactions([
+    ...reactions,
+    {
+      id: nextReactionId(reactions),
+      reactants: [Math.min(ParticleType.B, species.length - 1)],
+      catalyst: ParticleType.A,
+      products: [ParticleType.A, ParticleType.A],
+      efficiency: 0.1,
+      ...DEFAULT_REACTION_ENERGY,
+    },
+  ]);
+
+  const exportCatalog = () => {
+    const file: ReactionCatalogFile = { version: REACTION_CATALOG_VERSION, reactions };
+    downloadText('reaction-catalog.json', JSON.stringify(file, null, 2), 'application/json');
+  };
+
+  const importCatalog = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setReactions(parseReactionCatalog(await file.text(), species.length));
+    } catch (error) {
+      console.error('Could not import reaction catalog:', error);
+      window.alert(`Could not import reaction catalog: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className='reaction-editor'>
+      <h4>Reaction Catalog ({reactions.length})</h4>
+      <div className='reaction-toolbar'>
+        <button onClick={add}>Add</button>
+        <button onClick={() => setReactions(createDefaultReactions())}>Defaults</button>
+        <button onClick={exportCatalog}>Export</button>
+        <label className='file-button'>
+          Import
+          <input type='file' accept='application/json,.json' onChange={importCatalog} />
+        </label>
+      </div>
+      {reactionsError && <div className='reaction-warning'>Change rejected: {reactionsError}</div>}
+      <div className='reaction-list'>
+        {reactions.map((r, i) => {
+          const competing = participantCounts.get(participantKey(r))! - 1;
+          return (
+            <div key={r.id} className='reaction-item'>
+              <div className='reaction-row'>
+                <TypeList
+                  types={r.reactants}
+                  onChange={(reactants) => update(i, { reactants })}
+                  min={1}
+                  max={MAX_PARTICIPANTS - (r.catalyst === null ? 0 : 1)}
+                  species={species}
+                />
+                →
+                <TypeList types={r.products} onChange={(products) => update(i, { products })} min={0} max={MAX_PRODUCTS} species={species} />
+              </div>
+              <div className='reaction-row'>
+                cat.
+                <TypeSelect value={r.catalyst} noneLabel='None' onChange={(catalyst) => update(i, { catalyst })} species={species} />
+                eff.
+                <input
+                  type='number'
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={r.efficiency}
+                  onChange={(e) => update(i, { efficiency: Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                />
+                <button className='reaction-remove' onClick={() => remove(i)} title='Remove reaction'>×</button>
+              </div>
+              {thermodynamic && (
+                <div className='reaction-row'>
+                  energy in
+                  <input
+                    type='number'
+                    min={0}
+                    step={0.1}
+                    value={r.energyRequired}
+                    onChange={(e) => update(i, { energyRequired: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  />
+                  out
+                  <input
+                    type='number'
+                    min={0}
+                    step={0.1}
+                    value={r.energyReleased}
+                    onChange={(e) => update(i, { energyReleased: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  />
+                </div>
+              )}
+              <div className='reaction-flux'>
+                {r.id} · fired {fluxById.get(r.id)?.total ?? 0}
+                {' '}({fluxById.get(r.id)?.window ?? 0} in last {simulationState?.fluxWindowFrames ?? 0} frames)
+                {' '}· failed rolls {fluxById.get(r.id)?.failedRolls ?? 0}
+              </div>
+              {competing > 0 && (
+                <div className='reaction-warning'>
+                  Competes with {competing} other reaction{competing > 1 ? 's' : ''} for the same participants
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {discoveries.length > 0 && (
+        <>
+          <h4>Discovered ({discoveries.length})</h4>
+          <div className='reaction-list'>
+            {discoveries.map((d, i) => (
+              <div key={i} className='reaction-item discovered'>
+                <span>Frame {d.frame}: {formatReaction(d.reaction, species)}</span>
+                <button onClick={() => keep(d.reaction)} title='Add to the catalog so it survives resets'>Keep</button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
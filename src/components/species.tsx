@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { useSimulationStore } from "../store/simulationStore";
+import type { Species } from "../simulation/types";
+import { DEFAULT_PHYSICS, MAX_SPECIES, validateSpecies } from "../simulation/species";
+import { reactionTypes } from "../simulation/reactions";
+import NumberField from "./numberField";
+
+// Colors handed to new species in turn; any can be changed afterwards
+const newSpeciesColors = ['#40e0d0', '#ff7f50', '#9acd32', '#6495ed', '#ff69b4', '#daa520', '#ba55d3', '#20b2aa'];
+
+/** A species with an unused single-letter name, continuing after the default A-E */
+function newSpecies(species: Species[]): Species {
+  const names = new Set(species.map((s) => s.name));
+  let name = `Species ${species.length + 1}`;
+  for (let code = 'F'.charCodeAt(0); code <= 'Z'.charCodeAt(0); code++) {
+    if (!names.has(String.fromCharCode(code))) {
+      name = String.fromCharCode(code);
+      break;
+    }
+  }
+  return {
+    name,
+    color: newSpeciesColors[species.length % newSpeciesColors.length],
+    initialCount: 0,
+    sticky: false,
+    attractsEnergy: false,
+    ...DEFAULT_PHYSICS,
+  };
+}
+
+/**
+ * Name, color, initial count, physics and behavior of one species.
+ */
+function SpeciesCard({ species, onChange, onRemove, removeBlocked }: {
+  species: Species;
+  onChange: (species: Species) => void;
+  onRemove?: () => void;
+  removeBlocked: boolean;
+}) {
+  return (
+    <div className='param-card'>
+      <div className='param-card-header'>
+        <span><span className='particle-color-swatch' style={{ backgroundColor: species.color }}></span>{species.name}</span>
+        {onRemove && (
+          <button onClick={onRemove} disabled={removeBlocked} title={removeBlocked ? 'Reactions still use this species' : undefined}>
+            Remove
+          </button>
+        )}
+      </div>
+      <div className='param-fields'>
+        <label>
+          Name
+          <input type='text' value={species.name} onChange={(e) => onChange({ ...species, name: e.target.value })} />
+        </label>
+        <label>
+          Color
+          <input type='color' value={species.color} onChange={(e) => onChange({ ...species, color: e.target.value })} />
+        </label>
+        <NumberField label='Initial Count' value={species.initialCount} step={10} min={0} onChange={(initialCount) => onChange({ ...species, initialCount: Math.round(initialCount) })} />
+        <NumberField label='Radius (× r)' value={species.radius} step={0.1} min={0.1} onChange={(radius) => onChange({ ...species, radius })} />
+        <NumberField label='Mass' value={species.mass} step={0.1} min={0.1} onChange={(mass) => onChange({ ...species, mass })} />
+        <NumberField label='Diffusion (× X)' value={species.diffusion} step={0.1} min={0} onChange={(diffusion) => onChange({ ...species, diffusion })} />
+        <NumberField label='Drift (flow share)' value={species.drift} step={0.1} min={0} onChange={(drift) => onChange({ ...species, drift })} />
+      </div>
+      <div className='species-flags'>
+        <label>
+          <input type='checkbox' checked={species.sticky} onChange={(e) => onChange({ ...species, sticky: e.target.checked })} />
+          Sticky (binder)
+        </label>
+        <label>
+          <input type='checkbox' checked={species.attractsEnergy} onChange={(e) => onChange({ ...species, attractsEnergy: e.target.checked })} />
+          Attracts energy
+        </label>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Editor for the species registry. Behavior, physics and colors apply immediately;
+ * initial counts take effect on the next reset. Only the last species can be
+ * removed, and only once no reaction refers to it.
+ */
+export default function SpeciesEditor() {
+  const species = useSimulationStore((state) => state.params.species);
+  const reactions = useSimulationStore((state) => state.reactions);
+  const discoveries = useSimulationStore((state) => state.discoveries);
+  const setParams = useSimulationStore((state) => state.setParams);
+  const paramsError = useSimulationStore((state) => state.paramsError);
+
+  // Edits that do not form a valid registry yet, such as a half-typed duplicate name
+  const [draft, setDraft] = useState<Species[] | null>(null);
+  const shown = draft ?? species;
+  const problem = draft && validateSpecies(draft);
+
+  const apply = (next: Species[]) => {
+    if (validateSpecies(next)) {
+      setDraft(next);
+      return;
+    }
+    setDraft(null);
+    setParams({ species: next });
+  };
+
+  const last = shown.length - 1;
+  const lastInUse = [...reactions, ...discoveries.map((d) => d.reaction)].some(
+    (r) => Math.max(...reactionTypes(r)) >= last,
+  );
+
+  return (
+    <div className='species'>
+      <h4>Species</h4>
+      <p className='inspector-hint'>Initial counts apply on reset.</p>
+      {shown.map((s, i) => (
+        <SpeciesCard
+          key={i}
+          species={s}
+          onChange={(next) => apply(shown.map((t, j) => (j === i ? next : t)))}
+          onRemove={i === last && i > 0 ? () => apply(shown.slice(0, last)) : undefined}
+          removeBlocked={lastInUse}
+        />
+      ))}
+      {problem && <p className='species-problem'>{problem}</p>}
+      {!problem && paramsError && <p className='species-problem'>Change rejected: {paramsError}</p>}
+      <button onClick={() => apply([...shown, newSpecies(shown)])} disabled={shown.length >= MAX_SPECIES}>Add Species</button>
+    </div>
+  );
+}
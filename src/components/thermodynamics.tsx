@@ -0,0 +1,60 @@
+import { useSimulationStore } from "../store/simulationStore";
+import type { Thermodynamics } from "../simulation/types";
+import NumberField from "./numberField";
+
+/**
+ * Switch and settings of energy-budget chemistry, with the energy balance of
+ * the current run. Settings apply immediately; packets already in flight keep
+ * their amounts.
+ */
+export default function ThermodynamicsEditor() {
+  const thermodynamics = useSimulationStore((state) => state.params.thermodynamics);
+  const setParams = useSimulationStore((state) => state.setParams);
+  const stats = useSimulationStore((state) => state.stats);
+  const update = (patch: Partial<Thermodynamics>) => setParams({ thermodynamics: { ...thermodynamics, ...patch } });
+  const format = (energy: number | undefined) => (energy ?? 0).toFixed(1);
+
+  return (
+    <div className='thermodynamics'>
+      <h4>Thermodynamics</h4>
+      <label className='thermodynamics-toggle'>
+        <input type='checkbox' checked={thermodynamics.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+        Energy budgets
+      </label>
+      <p className='inspector-hint'>
+        {thermodynamics.enabled
+          ? 'Reactions pay their energy from reactants, energy packets and nearby attractor stores, and pass the rest on to their products.'
+          : 'Every reaction uses up one energy particle in range.'}
+      </p>
+      {thermodynamics.enabled && (
+        <div className='param-fields'>
+          <NumberField
+            label='Packet Energy Min'
+            value={thermodynamics.packetEnergyMin}
+            step={0.1}
+            min={0}
+            onChange={(packetEnergyMin) => update({ packetEnergyMin: Math.max(0, packetEnergyMin) })}
+          />
+          <NumberField
+            label='Packet Energy Max'
+            value={thermodynamics.packetEnergyMax}
+            step={0.1}
+            min={0}
+            onChange={(packetEnergyMax) => update({ packetEnergyMax: Math.max(0, packetEnergyMax) })}
+          />
+          <NumberField
+            label='Attractor Capacity'
+            value={thermodynamics.attractorCapacity}
+            step={0.5}
+            min={0}
+            onChange={(attractorCapacity) => update({ attractorCapacity: Math.max(0, attractorCapacity) })}
+          />
+        </div>
+      )}
+      <p>Free: {format(stats.freeEnergy)} · Stored: {format(stats.storedEnergy)}</p>
+      <p>Injected: {format(stats.energyInjected)} · Released: {format(stats.energyReleased)}</p>
+      <p>Spent: {format(stats.energySpent)} · Lost: {format(stats.energyLost)}</p>
+      <p>Blocked by energy: {stats.energyStarvedEncounters || 0}</p>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+/**
+ * View onto the world: the world point shown at the canvas's top-left corner,
+ * and how many canvas pixels one world unit spans.
+ */
+export interface Camera {
+  x: number
+  y: number
+  zoom: number
+}
+
+export const MIN_ZOOM = 0.25
+export const MAX_ZOOM = 32
+
+export const defaultCamera: Camera = { x: 0, y: 0, zoom: 1 }
+
+export function screenToWorld(camera: Camera, sx: number, sy: number): { x: number; y: number } {
+  return { x: camera.x + sx / camera.zoom, y: camera.y + sy / camera.zoom }
+}
+
+/** Zooms by `factor`, keeping the world point under canvas pixel (sx, sy) in place */
+export function zoomAt(camera: Camera, sx: number, sy: number, factor: number): Camera {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, camera.zoom * factor))
+  const anchor = screenToWorld(camera, sx, sy)
+  return { x: anchor.x - sx / zoom, y: anchor.y - sy / zoom, zoom }
+}
+
+/** Moves the view by a drag of (dx, dy) canvas pixels */
+export function panBy(camera: Camera, dx: number, dy: number): Camera {
+  return { ...camera, x: camera.x - dx / camera.zoom, y: camera.y - dy / camera.zoom }
+}
+
+/** Centers the view on world point (x, y) for a canvas of the given size */
+export function centerOn(camera: Camera, x: number, y: number, width: number, height: number): Camera {
+  return { ...camera, x: x - width / (2 * camera.zoom), y: y - height / (2 * camera.zoom) }
+}
@@ -0,0 +1,107 @@
+import { ParticleType } from '../simulation/types'
+import type { ParticleRenderer, RenderFrame, RenderSettings } from './renderer'
+import {
+  BACKGROUND_COLOR, ENERGY_COLOR, GLOW_ALPHA, GLOW_EXTENT, IDLE_BRIGHTNESS, MIN_AGE_OPACITY, OUTLINE_COLOR, cssColor,
+} from './palette'
+import type { Rgba } from './palette'
+
+// Stands in for the color of a type the registry no longer holds
+const UNKNOWN_COLOR: Rgba = [128, 128, 128, 0.9]
+
+const energyStyle = cssColor(ENERGY_COLOR)
+const outlineStyle = cssColor(OUTLINE_COLOR)
+const backgroundStyle = cssColor(BACKGROUND_COLOR)
+
+/**
+ * Fallback renderer that draws each particle as its own Canvas 2D path.
+ */
+export class Canvas2DRenderer implements ParticleRenderer {
+  public readonly kind = 'canvas2d'
+  private readonly context: CanvasRenderingContext2D
+  // Fill styles of the species colors last drawn with
+  private colors: readonly Rgba[] = []
+  private fillStyles: string[] = []
+
+  private constructor(context: CanvasRenderingContext2D) {
+    this.context = context
+  }
+
+  /** Returns null if the canvas cannot provide a 2D context */
+  public static create(canvas: HTMLCanvasElement): Canvas2DRenderer | null {
+    const context = canvas.getContext('2d')
+    return context ? new Canvas2DRenderer(context) : null
+  }
+
+  public render(frame: RenderFrame, settings: RenderSettings): void {
+    const context = this.context
+    const { width, height } = context.canvas
+    const { positions, types } = frame
+    const { radius, camera, colors, radiusScales } = settings
+    if (colors !== this.colors) {
+      this.colors = colors
+      this.fillStyles = colors.map(cssColor)
+    }
+    const energies = settings.mode === 'energy' ? frame.energies : undefined
+    const ages = settings.mode === 'age' ? frame.ages : undefined
+    context.setTransform(1, 0, 0, 1, 0, 0)
+    context.fillStyle = backgroundStyle
+    context.fillRect(0, 0, width, height)
+
+    // Draw in world coordinates; outlines stay one pixel wide at any zoom
+    context.setTransform(camera.zoom, 0, 0, camera.zoom, -camera.x * camera.zoom, -camera.y * camera.zoom)
+    context.strokeStyle = outlineStyle
+    context.lineWidth = 1 / camera.zoom
+    for (let i = 0; i < types.length; i++) {
+      const x = positions[i * 2]
+      const y = positions[i * 2 + 1]
+      const type = types[i] as ParticleType
+
+      // Choose shape based on particle type
+      // - Species: draw circles of their own radius
+      // - Energy: draw a smaller square of side r, offset by a third of it, for visual distinction
+      if (type === ParticleType.Energy) {
+        context.beginPath()
+        context.rect(x - radius / 3, y - radius / 3, radius, radius)
+        context.fillStyle = energyStyle
+        context.fill()
+        context.stroke()
+        continue
+      }
+
+      const r = radius * (radiusScales[type] ?? 1)
+      let fillStyle = this.fillStyles[type] ?? cssColor(UNKNOWN_COLOR)
+      if (energies) {
+        const energy = energies[i]
+        const [red, green, blue, a] = colors[type] ?? UNKNOWN_COLOR
+        if (energy > 0) this.drawGlow(x, y, r, energy, red, green, blue)
+        const k = IDLE_BRIGHTNESS + (1 - IDLE_BRIGHTNESS) * energy
+        fillStyle = cssColor([Math.round(red * k), Math.round(green * k), Math.round(blue * k), a])
+      }
+      if (ages) context.globalAlpha = 1 - (1 - MIN_AGE_OPACITY) * ages[i]
+
+      context.beginPath()
+      context.arc(x, y, r, 0, 2 * Math.PI)
+      context.fillStyle = fillStyle
+      context.fill()
+      context.stroke()
+      context.globalAlpha = 1
+    }
+  }
+
+  /** Soft halo around a particle that reacted recently */
+  private drawGlow(x: number, y: number, radius: number, energy: number, r: number, g: number, b: number): void {
+    const context = this.context
+    const outer = radius * (1 + GLOW_EXTENT * energy)
+    const gradient = context.createRadialGradient(x, y, radius, x, y, outer)
+    gradient.addColorStop(0, cssColor([r, g, b, GLOW_ALPHA * energy]))
+    gradient.addColorStop(1, cssColor([r, g, b, 0]))
+    context.beginPath()
+    context.arc(x, y, outer, 0, 2 * Math.PI)
+    context.fillStyle = gradient
+    context.fill()
+  }
+
+  public dispose(): void {
+    // Nothing to release: the 2D context lives as long as its canvas
+  }
+}
@@ -0,0 +1,61 @@
+import type { FlowSampler } from '../simulation/flow'
+import type { Camera } from './camera'
+import { screenToWorld } from './camera'
+
+/** Distance between arrows in canvas pixels, independent of zoom */
+const ARROW_SPACING = 40
+const ARROW_COLOR = 'rgba(120, 200, 255, 0.55)'
+
+/**
+ * Draws arrows showing the flow field on a grid over the visible part of the
+ * world. Lengths are relative to the fastest flow in view, so weak and strong
+ * fields read equally well.
+ */
+export function drawFlowArrows(
+  ctx: CanvasRenderingContext2D,
+  flow: FlowSampler,
+  frame: number,
+  camera: Camera,
+  worldWidth: number,
+  worldHeight: number,
+): void {
+  const { width, height } = ctx.canvas
+  const arrows: { sx: number; sy: number; vx: number; vy: number }[] = []
+  let maxSpeed = 0
+  for (let sy = ARROW_SPACING / 2; sy < height; sy += ARROW_SPACING) {
+    for (let sx = ARROW_SPACING / 2; sx < width; sx += ARROW_SPACING) {
+      const world = screenToWorld(camera, sx, sy)
+      if (world.x < 0 || world.x > worldWidth || world.y < 0 || world.y > worldHeight) continue
+      const [vx, vy] = flow.sample(world.x, world.y, frame, worldWidth, worldHeight)
+      maxSpeed = Math.max(maxSpeed, Math.hypot(vx, vy))
+      arrows.push({ sx, sy, vx, vy })
+    }
+  }
+  if (maxSpeed === 0) return
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
+  ctx.strokeStyle = ARROW_COLOR
+  ctx.lineWidth = 1
+  ctx.beginPath()
+  const scale = (0.8 * ARROW_SPACING) / maxSpeed
+  for (const { sx, sy, vx, vy } of arrows) {
+    const dx = vx * scale
+    const dy = vy * scale
+    const length = Math.hypot(dx, dy)
+    if (length < 1) continue
+    // Centered shaft with a two-stroke head at the downstream end
+    const x0 = sx - dx / 2
+    const y0 = sy - dy / 2
+    const x1 = sx + dx / 2
+    const y1 = sy + dy / 2
+    const head = Math.min(6, length / 2)
+    const ux = dx / length
+    const uy = dy / length
+    ctx.moveTo(x0, y0)
+    ctx.lineTo(x1, y1)
+    ctx.lineTo(x1 - head * (ux - uy * 0.5), y1 - head * (uy + ux * 0.5))
+    ctx.moveTo(x1, y1)
+    ctx.lineTo(x1 - head * (ux + uy * 0.5), y1 - head * (uy - ux * 0.5))
+  }
+  ctx.stroke()
+}
@@ -0,0 +1,70 @@
+import type { Obstacle, ObstaclePoint } from '../simulation/types'
+import { channelWalls } from '../simulation/obstacles'
+import type { Camera } from './camera'
+import { OBSTACLE_FILL, OBSTACLE_STROKE, cssColor } from './palette'
+
+/** Obstacle being drawn on the canvas, previewed on top of the placed ones */
+export interface ObstacleDraft {
+  obstacle: Obstacle | null // Shape being dragged out
+  path: ObstaclePoint[] // Polygon points placed so far, ending at the pointer
+}
+
+/** Traces a thick segment as a stadium, matching how the simulation collides with walls */
+function traceSegment(ctx: CanvasRenderingContext2D, x1: number, y1: number, x2: number, y2: number, halfThickness: number): void {
+  const angle = Math.atan2(y2 - y1, x2 - x1)
+  ctx.moveTo(x1 + Math.cos(angle + Math.PI / 2) * halfThickness, y1 + Math.sin(angle + Math.PI / 2) * halfThickness)
+  ctx.arc(x2, y2, halfThickness, angle + Math.PI / 2, angle - Math.PI / 2, true)
+  ctx.arc(x1, y1, halfThickness, angle - Math.PI / 2, angle + Math.PI / 2, true)
+  ctx.closePath()
+}
+
+function traceObstacle(ctx: CanvasRenderingContext2D, obstacle: Obstacle): void {
+  switch (obstacle.kind) {
+    case 'circle':
+      ctx.moveTo(obstacle.x + obstacle.radius, obstacle.y)
+      ctx.arc(obstacle.x, obstacle.y, obstacle.radius, 0, Math.PI * 2)
+      break
+    case 'wall':
+      traceSegment(ctx, obstacle.x1, obstacle.y1, obstacle.x2, obstacle.y2, obstacle.thickness / 2)
+      break
+    case 'channel':
+      for (const wall of channelWalls(obstacle)) {
+        traceSegment(ctx, wall.x1, wall.y1, wall.x2, wall.y2, wall.halfThickness)
+      }
+      break
+    case 'polygon':
+      obstacle.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)))
+      ctx.closePath()
+      break
+  }
+}
+
+/**
+ * Draws obstacles, and the one being edited, onto a transparent overlay canvas
+ * with the same camera as the particle renderer. Does not clear the canvas.
+ */
+export function drawObstacles(
+  ctx: CanvasRenderingContext2D,
+  obstacles: readonly Obstacle[],
+  camera: Camera,
+  draft: ObstacleDraft,
+): void {
+  ctx.setTransform(camera.zoom, 0, 0, camera.zoom, -camera.x * camera.zoom, -camera.y * camera.zoom)
+  // Keep outlines one pixel wide at any zoom
+  ctx.lineWidth = 1 / camera.zoom
+
+  ctx.fillStyle = cssColor(OBSTACLE_FILL)
+  ctx.strokeStyle = cssColor(OBSTACLE_STROKE)
+  ctx.beginPath()
+  for (const obstacle of obstacles) traceObstacle(ctx, obstacle)
+  ctx.fill('nonzero')
+  ctx.stroke()
+
+  // The draft is outlined only, so it reads as not yet placed
+  ctx.setLineDash([4 / camera.zoom, 4 / camera.zoom])
+  ctx.beginPath()
+  if (draft.obstacle) traceObstacle(ctx, draft.obstacle)
+  draft.path.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)))
+  ctx.stroke()
+  ctx.setLineDash([])
+}
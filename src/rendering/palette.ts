@@ -0,0 +1,51 @@
+import type { Species } from '../simulation/types'
+
+/** RGBA color with 0-255 channels and 0-1 alpha */
+export type Rgba = readonly [number, number, number, number]
+
+/** Fill color of energy particles; species bring their own */
+export const ENERGY_COLOR: Rgba = [255, 255, 100, 0.9]
+
+/** Opacity of species fills */
+const SPECIES_ALPHA = 0.9
+
+/** Converts a hex color like '#3264ff' to RGBA */
+export function hexToRgba(hex: string, alpha: number): Rgba {
+  const value = parseInt(hex.slice(1, 7), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255, alpha]
+}
+
+/**
+ * Fill color per species, shared by every renderer.
+ * Indexed by ParticleType value.
+ */
+export function speciesColors(species: Species[]): Rgba[] {
+  return species.map(({ color }) => hexToRgba(color, SPECIES_ALPHA))
+}
+
+/** Subtle white outline drawn around every particle for better visibility */
+export const OUTLINE_COLOR: Rgba = [255, 255, 255, 0.3]
+
+export const BACKGROUND_COLOR: Rgba = [26, 26, 26, 1]
+
+/** Obstacle fill and edge, drawn over the particles */
+export const OBSTACLE_FILL: Rgba = [120, 130, 150, 0.55]
+export const OBSTACLE_STROKE: Rgba = [190, 200, 220, 0.9]
+
+export function cssColor([r, g, b, a]: Rgba): string {
+  return `rgba(${r}, ${g}, ${b}, ${a})`
+}
+
+// Render mode shading, shared so every renderer draws the modes alike
+
+/** Fill brightness in energy mode for a particle without recent reaction energy */
+export const IDLE_BRIGHTNESS = 0.35
+
+/** Extra halo radius in energy mode at full energy, in particle radii */
+export const GLOW_EXTENT = 2
+
+/** Halo opacity at full energy, fading out towards the halo edge */
+export const GLOW_ALPHA = 0.35
+
+/** Opacity in age mode for a particle at the end of its lifespan */
+export const MIN_AGE_OPACITY = 0.1
@@ -0,0 +1,25 @@
+import type { Protocell } from '../simulation/types'
+import type { Camera } from './camera'
+
+const PROTOCELL_STROKE = 'rgba(120, 255, 180, 0.9)'
+const PROTOCELL_FILL = 'rgba(120, 255, 180, 0.12)'
+
+/**
+ * Outlines detected protocells along their membrane binders, on the overlay
+ * canvas with the particle renderer's camera.
+ */
+export function drawProtocells(ctx: CanvasRenderingContext2D, protocells: readonly Protocell[], camera: Camera): void {
+  ctx.setTransform(camera.zoom, 0, 0, camera.zoom, -camera.x * camera.zoom, -camera.y * camera.zoom)
+  ctx.lineWidth = 1.5 / camera.zoom
+  ctx.strokeStyle = PROTOCELL_STROKE
+  ctx.fillStyle = PROTOCELL_FILL
+  ctx.beginPath()
+  for (const { outline } of protocells) {
+    if (outline.length < 6) continue
+    ctx.moveTo(outline[0], outline[1])
+    for (let i = 2; i < outline.length; i += 2) ctx.lineTo(outline[i], outline[i + 1])
+    ctx.closePath()
+  }
+  ctx.fill()
+  ctx.stroke()
+}
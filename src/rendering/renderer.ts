@@ -0,0 +1,53 @@
+import { Canvas2DRenderer } from './canvas2dRenderer'
+import { WebGLRenderer } from './webglRenderer'
+import type { SimulationState } from '../simulation/types'
+import type { Camera } from './camera'
+import type { Rgba } from './palette'
+
+export type RendererKind = 'webgl2' | 'canvas2d'
+
+/** Which renderer to use; 'auto' prefers WebGL2 and falls back to Canvas 2D */
+export type RendererPreference = 'auto' | RendererKind
+
+/**
+ * How substrate particles are shaded: by type only, glowing with recent
+ * reaction energy, or fading as they approach the end of their lifespan.
+ * Energy particles always look the same.
+ */
+export type RenderMode = 'type' | 'energy' | 'age'
+
+export interface RenderSettings {
+  radius: number
+  mode: RenderMode
+  camera: Camera
+  colors: readonly Rgba[] // Per species, indexed by ParticleType; keep the same array while it is unchanged
+  radiusScales: readonly number[] // Radius of each species in multiples of `radius`, kept alike
+}
+
+/** Per-particle data to draw; modes fall back to plain type colors without energies or ages */
+export type RenderFrame = Pick<SimulationState, 'positions' | 'types' | 'energies' | 'ages'>
+
+/**
+ * Draws particles onto a canvas.
+ */
+export interface ParticleRenderer {
+  readonly kind: RendererKind
+  /** Draws one frame */
+  render(frame: RenderFrame, settings: RenderSettings): void
+  /** Releases GPU resources and event listeners */
+  dispose(): void
+}
+
+/**
+ * Creates a renderer for the canvas according to the preference.
+ * Returns null when none of the allowed backends can be set up. A canvas that
+ * has already handed out a WebGL context cannot fall back to Canvas 2D, so the
+ * caller should then retry on a fresh canvas element.
+ */
+export function createRenderer(canvas: HTMLCanvasElement, preference: RendererPreference): ParticleRenderer | null {
+  if (preference !== 'canvas2d') {
+    const webgl = WebGLRenderer.create(canvas)
+    if (webgl || preference === 'webgl2') return webgl
+  }
+  return Canvas2DRenderer.create(canvas)
+}
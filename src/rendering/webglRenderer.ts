@@ -0,0 +1,340 @@
+import { ParticleType } from '../simulation/types'
+import { MAX_SPECIES } from '../simulation/species'
+import type { ParticleRenderer, RenderFrame, RenderMode, RenderSettings } from './renderer'
+import {
+  BACKGROUND_COLOR, ENERGY_COLOR, GLOW_ALPHA, GLOW_EXTENT, IDLE_BRIGHTNESS, MIN_AGE_OPACITY, OUTLINE_COLOR,
+} from './palette'
+import type { Rgba } from './palette'
+
+// Render modes as passed to the shaders
+const modeIndex: Record<RenderMode, number> = { type: 0, energy: 1, age: 2 }
+
+/** Formats a number as a GLSL float literal */
+function glslFloat(value: number): string {
+  return Number.isInteger(value) ? value.toFixed(1) : String(value)
+}
+
+// One quad per particle; the vertex shader sizes and places it, the fragment
+// shader cuts out the circle or square and draws the 1px outline
+const vertexShaderSource = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec2 a_position;
+layout(location = 2) in uint a_type;
+layout(location = 3) in float a_energy;
+layout(location = 4) in float a_age;
+
+uniform vec2 u_resolution;
+uniform vec2 u_cameraOrigin;
+uniform float u_zoom;
+uniform float u_radius;
+uniform int u_mode;
+uniform vec4 u_colors[${MAX_SPECIES}];
+uniform vec4 u_energyColor;
+uniform float u_radiusScales[${MAX_SPECIES}];
+
+out vec2 v_local;
+out vec4 v_color;
+flat out vec3 v_glowColor;
+flat out float v_half;
+flat out float v_square;
+flat out float v_glow;
+flat out float v_glowEdge;
+flat out float v_fade;
+
+void main() {
+  bool energy = a_type == ${ParticleType.Energy}u;
+  // Energy squares have side r and start a third of it up-left of the particle
+  uint species = min(a_type, ${MAX_SPECIES - 1}u);
+  float halfSize = energy ? u_radius * 0.5 : u_radius * u_radiusScales[species];
+  vec2 center = energy ? a_position + vec2(u_radius / 6.0) : a_position;
+
+  vec4 color = energy ? u_energyColor : u_colors[species];
+  float glow = 0.0;
+  float fade = 1.0;
+  if (!energy && u_mode == ${modeIndex.energy}) {
+    color.rgb *= ${glslFloat(IDLE_BRIGHTNESS)} + ${glslFloat(1 - IDLE_BRIGHTNESS)} * a_energy;
+    glow = a_energy;
+  }
+  if (!energy && u_mode == ${modeIndex.age}) fade = 1.0 - ${glslFloat(1 - MIN_AGE_OPACITY)} * a_age;
+  float glowEdge = halfSize * (1.0 + ${glslFloat(GLOW_EXTENT)} * glow);
+
+  // Sizes below are in canvas pixels, so outlines stay one pixel wide at any zoom.
+  // Leave room for the halo and for the outline, which straddles the shape edge
+  float halfPixels = halfSize * u_zoom;
+  float glowPixels = glowEdge * u_zoom;
+  v_local = a_corner * (max(halfPixels, glowPixels) + 1.0);
+  vec2 pixel = (center - u_cameraOrigin) * u_zoom + v_local;
+  vec2 clip = pixel / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_color = color;
+  v_glowColor = color.rgb;
+  v_half = halfPixels;
+  v_square = energy ? 1.0 : 0.0;
+  v_glow = glow;
+  v_glowEdge = glowPixels;
+  v_fade = fade;
+}
+`
+
+const fragmentShaderSource = `#version 300 es
+precision highp float;
+
+uniform vec4 u_outline;
+
+in vec2 v_local;
+in vec4 v_color;
+flat in vec3 v_glowColor;
+flat in float v_half;
+flat in float v_square;
+flat in float v_glow;
+flat in float v_glowEdge;
+flat in float v_fade;
+
+out vec4 outColor;
+
+void main() {
+  float d = v_square > 0.5 ? max(abs(v_local.x), abs(v_local.y)) : length(v_local);
+  if (d > v_half + 0.5) {
+    // Halo of recent reaction energy, fading out towards its edge
+    if (v_glow <= 0.0 || d >= v_glowEdge) discard;
+    float t = (d - v_half) / (v_glowEdge - v_half);
+    outColor = vec4(v_glowColor, ${glslFloat(GLOW_ALPHA)} * v_glow * (1.0 - t));
+    return;
+  }
+  vec4 fill = d <= v_half ? v_color : vec4(0.0);
+  if (d < v_half - 0.5) {
+    outColor = vec4(fill.rgb, fill.a * v_fade);
+    return;
+  }
+  // Composite the outline over the fill
+  float a = u_outline.a + fill.a * (1.0 - u_outline.a);
+  vec3 rgb = (u_outline.rgb * u_outline.a + fill.rgb * fill.a * (1.0 - u_outline.a)) / a;
+  outColor = vec4(rgb, a * v_fade);
+}
+`
+
+interface GpuResources {
+  program: WebGLProgram
+  vertexArray: WebGLVertexArrayObject
+  cornerBuffer: WebGLBuffer
+  positionBuffer: WebGLBuffer
+  typeBuffer: WebGLBuffer
+  energyBuffer: WebGLBuffer
+  ageBuffer: WebGLBuffer
+  resolutionLocation: WebGLUniformLocation | null
+  cameraOriginLocation: WebGLUniformLocation | null
+  zoomLocation: WebGLUniformLocation | null
+  radiusLocation: WebGLUniformLocation | null
+  modeLocation: WebGLUniformLocation | null
+  colorsLocation: WebGLUniformLocation | null
+  radiusScalesLocation: WebGLUniformLocation | null
+}
+
+function compileShader(gl: WebGL2RenderingContext, type: GLenum, source: string): WebGLShader {
+  const shader = gl.createShader(type)
+  if (!shader) throw new Error('Could not create shader')
+  gl.shaderSource(shader, source)
+  gl.compileShader(shader)
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader)
+    gl.deleteShader(shader)
+    throw new Error(`Shader compilation failed: ${log}`)
+  }
+  return shader
+}
+
+function createResources(gl: WebGL2RenderingContext): GpuResources {
+  const vertexShader = compileShader(gl, gl.VERTEX_SHADER, vertexShaderSource)
+  const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource)
+  const program = gl.createProgram()
+  gl.attachShader(program, vertexShader)
+  gl.attachShader(program, fragmentShader)
+  gl.linkProgram(program)
+  gl.deleteShader(vertexShader)
+  gl.deleteShader(fragmentShader)
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(program)
+    gl.deleteProgram(program)
+    throw new Error(`Program link failed: ${log}`)
+  }
+
+  const vertexArray = gl.createVertexArray()
+  gl.bindVertexArray(vertexArray)
+
+  const cornerBuffer = gl.createBuffer()
+  gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer)
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW)
+  gl.enableVertexAttribArray(0)
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0)
+
+  const positionBuffer = gl.createBuffer()
+  gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer)
+  gl.enableVertexAttribArray(1)
+  gl.vertexAttribPointer(1, 2, gl.FLOAT, false, 0, 0)
+  gl.vertexAttribDivisor(1, 1)
+
+  const typeBuffer = gl.createBuffer()
+  gl.bindBuffer(gl.ARRAY_BUFFER, typeBuffer)
+  gl.enableVertexAttribArray(2)
+  gl.vertexAttribIPointer(2, 1, gl.UNSIGNED_BYTE, 0, 0)
+  gl.vertexAttribDivisor(2, 1)
+
+  // Energies and ages are optional; their arrays are enabled per frame when present
+  const energyBuffer = gl.createBuffer()
+  gl.bindBuffer(gl.ARRAY_BUFFER, energyBuffer)
+  gl.vertexAttribPointer(3, 1, gl.FLOAT, false, 0, 0)
+  gl.vertexAttribDivisor(3, 1)
+
+  const ageBuffer = gl.createBuffer()
+  gl.bindBuffer(gl.ARRAY_BUFFER, ageBuffer)
+  gl.vertexAttribPointer(4, 1, gl.FLOAT, false, 0, 0)
+  gl.vertexAttribDivisor(4, 1)
+
+  gl.bindVertexArray(null)
+
+  // Energy and outline colors never change, so upload them once; species colors follow the settings
+  gl.useProgram(program)
+  const uniformColor = (name: string, [r, g, b, a]: Rgba) => {
+    gl.uniform4f(gl.getUniformLocation(program, name), r / 255, g / 255, b / 255, a)
+  }
+  uniformColor('u_energyColor', ENERGY_COLOR)
+  uniformColor('u_outline', OUTLINE_COLOR)
+
+  return {
+    program,
+    vertexArray,
+    cornerBuffer,
+    positionBuffer,
+    typeBuffer,
+    energyBuffer,
+    ageBuffer,
+    resolutionLocation: gl.getUniformLocation(program, 'u_resolution'),
+    cameraOriginLocation: gl.getUniformLocation(program, 'u_cameraOrigin'),
+    zoomLocation: gl.getUniformLocation(program, 'u_zoom'),
+    radiusLocation: gl.getUniformLocation(program, 'u_radius'),
+    modeLocation: gl.getUniformLocation(program, 'u_mode'),
+    colorsLocation: gl.getUniformLocation(program, 'u_colors'),
+    radiusScalesLocation: gl.getUniformLocation(program, 'u_radiusScales'),
+  }
+}
+
+/**
+ * WebGL2 renderer: positions and types are uploaded as per-instance attributes
+ * and all particles are drawn with a single instanced call.
+ */
+export class WebGLRenderer implements ParticleRenderer {
+  public readonly kind = 'webgl2'
+  private readonly gl: WebGL2RenderingContext
+  private resources: GpuResources | null
+  private uploadedColors: readonly Rgba[] | null = null // Species colors the program currently holds
+  private uploadedRadiusScales: readonly number[] | null = null
+
+  private constructor(gl: WebGL2RenderingContext, resources: GpuResources) {
+    this.gl = gl
+    this.resources = resources
+    gl.canvas.addEventListener('webglcontextlost', this.onContextLost)
+    gl.canvas.addEventListener('webglcontextrestored', this.onContextRestored)
+  }
+
+  /** Returns null if WebGL2 is unavailable or the shaders fail to build */
+  public static create(canvas: HTMLCanvasElement): WebGLRenderer | null {
+    const gl = canvas.getContext('webgl2', { alpha: false, antialias: false })
+    if (!gl) return null
+    try {
+      return new WebGLRenderer(gl, createResources(gl))
+    } catch (error) {
+      console.error('WebGL2 renderer unavailable:', error)
+      return null
+    }
+  }
+
+  public render(frame: RenderFrame, settings: RenderSettings): void {
+    const gl = this.gl
+    const resources = this.resources
+    if (!resources) return // Context lost; drawing resumes once it is restored
+
+    const { width, height } = gl.canvas
+    gl.viewport(0, 0, width, height)
+    const [r, g, b] = BACKGROUND_COLOR
+    gl.clearColor(r / 255, g / 255, b / 255, 1)
+    gl.clear(gl.COLOR_BUFFER_BIT)
+
+    const { positions, types } = frame
+    const count = types.length
+    if (count === 0) return
+
+    gl.useProgram(resources.program)
+    gl.uniform2f(resources.resolutionLocation, width, height)
+    gl.uniform2f(resources.cameraOriginLocation, settings.camera.x, settings.camera.y)
+    gl.uniform1f(resources.zoomLocation, settings.camera.zoom)
+    gl.uniform1f(resources.radiusLocation, settings.radius)
+    gl.uniform1i(resources.modeLocation, modeIndex[settings.mode])
+    if (settings.colors !== this.uploadedColors) {
+      const colors = new Float32Array(MAX_SPECIES * 4)
+      settings.colors.slice(0, MAX_SPECIES).forEach(([r, g, b, a], type) => colors.set([r / 255, g / 255, b / 255, a], type * 4))
+      gl.uniform4fv(resources.colorsLocation, colors)
+      this.uploadedColors = settings.colors
+    }
+    if (settings.radiusScales !== this.uploadedRadiusScales) {
+      const scales = new Float32Array(MAX_SPECIES).fill(1)
+      scales.set(settings.radiusScales.slice(0, MAX_SPECIES))
+      gl.uniform1fv(resources.radiusScalesLocation, scales)
+      this.uploadedRadiusScales = settings.radiusScales
+    }
+
+    gl.bindVertexArray(resources.vertexArray)
+    gl.bindBuffer(gl.ARRAY_BUFFER, resources.positionBuffer)
+    gl.bufferData(gl.ARRAY_BUFFER, positions.subarray(0, count * 2), gl.DYNAMIC_DRAW)
+    gl.bindBuffer(gl.ARRAY_BUFFER, resources.typeBuffer)
+    gl.bufferData(gl.ARRAY_BUFFER, types, gl.DYNAMIC_DRAW)
+    this.uploadOptional(3, resources.energyBuffer, settings.mode === 'energy' ? frame.energies : undefined)
+    this.uploadOptional(4, resources.ageBuffer, settings.mode === 'age' ? frame.ages : undefined)
+
+    gl.enable(gl.BLEND)
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA)
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, count)
+    gl.bindVertexArray(null)
+  }
+
+  /** Uploads an optional per-instance attribute, or feeds a constant 0 when it is absent */
+  private uploadOptional(location: number, buffer: WebGLBuffer, values: Float32Array | undefined): void {
+    const gl = this.gl
+    if (!values) {
+      gl.disableVertexAttribArray(location)
+      gl.vertexAttrib1f(location, 0)
+      return
+    }
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer)
+    gl.bufferData(gl.ARRAY_BUFFER, values, gl.DYNAMIC_DRAW)
+    gl.enableVertexAttribArray(location)
+  }
+
+  public dispose(): void {
+    this.gl.canvas.removeEventListener('webglcontextlost', this.onContextLost)
+    this.gl.canvas.removeEventListener('webglcontextrestored', this.onContextRestored)
+    const resources = this.resources
+    if (!resources || this.gl.isContextLost()) return
+    this.gl.deleteBuffer(resources.cornerBuffer)
+    this.gl.deleteBuffer(resources.positionBuffer)
+    this.gl.deleteBuffer(resources.typeBuffer)
+    this.gl.deleteBuffer(resources.energyBuffer)
+    this.gl.deleteBuffer(resources.ageBuffer)
+    this.gl.deleteVertexArray(resources.vertexArray)
+    this.gl.deleteProgram(resources.program)
+    this.resources = null
+    this.uploadedColors = null
+    this.uploadedRadiusScales = null
+  }
+
+  private onContextLost = (event: Event) => {
+    // Prevent the default so the browser may restore the context later
+    event.preventDefault()
+    this.resources = null
+    this.uploadedColors = null
+    this.uploadedRadiusScales = null
+  }
+
+  private onContextRestored = () => {
+    this.resources = createResources(this.gl)
+  }
+}
@@ -0,0 +1,44 @@
+import type { BoundaryCondition, EdgeBoundaries } from './types';
+import type { EnergyStore, SubstrateStore } from './particles';
+
+/**
+ * Coordinate along one axis of the given length after applying the conditions
+ * at its low and high end, or null when the particle left through an absorbing end.
+ */
+function confineAxis(v: number, length: number, low: BoundaryCondition, high: BoundaryCondition): number | null {
+  if (v < 0) {
+    if (low === 'absorbing') return null;
+    if (low === 'periodic') v += length;
+    else if (low === 'reflecting') v = -v;
+    else v = 0;
+  }
+  if (v > length) {
+    if (high === 'absorbing') return null;
+    if (high === 'periodic') v -= length;
+    else if (high === 'reflecting') v = 2 * length - v;
+    else v = length;
+  }
+  // Only a step longer than the world can still be outside; keep it on the edge
+  return Math.min(length, Math.max(0, v));
+}
+
+/**
+ * Applies the edge conditions to the particle in `slot` of a world
+ * `width` by `height`, deactivating it when it leaves through an absorbing edge.
+ */
+export function applyBoundaries(
+  store: SubstrateStore | EnergyStore,
+  slot: number,
+  edges: EdgeBoundaries,
+  width: number,
+  height: number,
+): void {
+  const y = confineAxis(store.y[slot], height, edges.top, edges.bottom);
+  const x = confineAxis(store.x[slot], width, edges.left, edges.right);
+  if (x === null || y === null) {
+    store.active[slot] = 0;
+    return;
+  }
+  store.x[slot] = x;
+  store.y[slot] = y;
+}
@@ -0,0 +1,56 @@
+import type { EnergySource, SimulationParams } from './types'
+import { createDefaultSpecies } from './species'
+
+/**
+ * The original energy supply: a narrow strip along the left edge pulsing on and
+ * off every 1000 frames, flowing right across the world.
+ */
+export const defaultEnergySource: EnergySource = {
+  shape: { kind: 'rect', x: 0, y: 0, width: 0.025, height: 1 },
+  rate: 2,
+  direction: 0,
+  speed: 1,
+  turbulence: 0.4,
+  waveform: { kind: 'square', periodFrames: 1000, dutyCycle: 0.5 },
+}
+
+/**
+ * Default simulation parameters for the simplified physics model.
+ * Shared by the UI store and the headless runner.
+ */
+export const defaultParams: SimulationParams = {
+  // World dimensions
+  Lx: 800,
+  Ly: 600,
+  
+  // Particles
+  species: createDefaultSpecies(),
+  energyParticleCount: 250,
+  
+  // Simplified physics parameters
+  particleRadius: 4,
+  randomStepMagnitudeX: 0.8,
+  collisionEnergyLossPct: 20,
+  binderForceUnitDistanceInR: 4,
+  reactionDistanceInR: 3,
+  flow: { kind: 'uniform', vx: 0.4, vy: 0 },
+  energyFlowCoupling: 0,
+  attractorForceUnitDistanceInR: 5,
+  discoveryProbability: 0,
+  thermodynamics: { enabled: false, packetEnergyMin: 0.5, packetEnergyMax: 1.5, attractorCapacity: 5 },
+  rafFoodSet: null,
+  
+  // Lifespan
+  particleLifespan: 1100,
+
+  // World geometry
+  obstacles: [],
+  // Substrates drift right with the current and flow out; the energy flow does the same
+  substrateBoundaries: { left: 'clamped', right: 'absorbing', top: 'periodic', bottom: 'periodic' },
+  energyBoundaries: { left: 'clamped', right: 'absorbing', top: 'periodic', bottom: 'periodic' },
+  energySources: [defaultEnergySource],
+
+  // Reproducibility
+  seed: 1
+}
+
@@ -0,0 +1,95 @@
+import type { EnergyInflowState, EnergyMotion, EnergySource, EnergySourceShape, EnergyWaveform } from './types';
+import type { RandomSource } from './random';
+
+/** Motion of particles that drift nowhere, e.g. energy placed without any source */
+export const STILL_MOTION: EnergyMotion = { vx: 0, vy: 0, jx: 0, jy: 0 };
+
+/** Motion given to the particles a source spawns: its flow, with turbulence across it */
+export function sourceMotion(source: EnergySource): EnergyMotion {
+  const angle = (source.direction * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    vx: source.speed * cos,
+    vy: source.speed * sin,
+    jx: -sin * source.turbulence,
+    jy: cos * source.turbulence,
+  };
+}
+
+/** Random point within a source's region in a world of the given size */
+export function sampleSourcePoint(shape: EnergySourceShape, width: number, height: number, random: RandomSource): [number, number] {
+  if (shape.kind === 'rect') {
+    return [
+      shape.x * width + random() * (shape.width * width),
+      shape.y * height + random() * (shape.height * height),
+    ];
+  }
+  const angle = random() * 2 * Math.PI;
+  const distance = shape.radius * Math.sqrt(random());
+  return [shape.x * width + Math.cos(angle) * distance, shape.y * height + Math.sin(angle) * distance];
+}
+
+/** Level between 0 and 1 of a deterministic waveform at `frame`; bursts are tracked by EnergyInflow */
+function waveformLevel(waveform: Exclude<EnergyWaveform, { kind: 'bursts' }>, frame: number): number {
+  switch (waveform.kind) {
+    case 'constant':
+      return 1;
+    case 'square': {
+      const period = Math.max(1, Math.round(waveform.periodFrames));
+      const on = Math.floor(period * Math.min(1, Math.max(0, waveform.dutyCycle)));
+      return frame % period < on ? 1 : 0;
+    }
+    case 'sine': {
+      const period = Math.max(1, waveform.periodFrames);
+      return (1 + Math.sin((2 * Math.PI * frame) / period)) / 2;
+    }
+  }
+}
+
+/**
+ * Decides how many particles each energy source emits per frame. Fractional
+ * rates and levels carry over, so a source with rate 0.25 emits every fourth
+ * frame. Sources are matched to their state by position in the list, so
+ * editing a source keeps its carry and any burst in progress.
+ */
+export class EnergyInflow {
+  private states: EnergyInflowState[] = [];
+
+  public reset(): void {
+    this.states = [];
+  }
+
+  /** Particles to emit from each source this frame, in source order */
+  public emissions(sources: EnergySource[], frame: number, random: RandomSource): number[] {
+    this.states.length = Math.min(this.states.length, sources.length);
+    while (this.states.length < sources.length) this.states.push({ carry: 0, burstFramesLeft: 0 });
+
+    return sources.map((source, i) => {
+      const state = this.states[i];
+      let level: number;
+      if (source.waveform.kind === 'bursts') {
+        if (state.burstFramesLeft <= 0 && random() < source.waveform.probability) {
+          state.burstFramesLeft = Math.max(1, Math.round(source.waveform.durationFrames));
+        }
+        level = state.burstFramesLeft > 0 ? 1 : 0;
+        if (state.burstFramesLeft > 0) state.burstFramesLeft--;
+      } else {
+        level = waveformLevel(source.waveform, frame);
+      }
+
+      state.carry += Math.max(0, source.rate) * level;
+      const count = Math.floor(state.carry);
+      state.carry -= count;
+      return count;
+    });
+  }
+
+  public exportState(): EnergyInflowState[] {
+    return this.states.map(state => ({ ...state }));
+  }
+
+  public loadState(states: EnergyInflowState[]): void {
+    this.states = states.map(state => ({ ...state }));
+  }
+}
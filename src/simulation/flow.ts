@@ -0,0 +1,83 @@
+import { createNoise3D } from 'simplex-noise';
+import type { NoiseFunction3D } from 'simplex-noise';
+import type { FlowField } from './types';
+import { createSeededRandom } from './random';
+
+// Distinct stream for the noise permutation so building it leaves the simulation PRNG untouched
+const NOISE_SEED_SALT = 0x9e3779b9;
+// Step in noise units for the finite-difference curl
+const CURL_EPSILON = 1e-3;
+
+/**
+ * Evaluates a flow field at world points. The velocity depends only on the
+ * field, the world size, the seed and the frame, so runs stay reproducible and
+ * resume exactly from snapshots.
+ */
+export class FlowSampler {
+  private field: FlowField;
+  private seed: number;
+  private noise: NoiseFunction3D | null = null;
+
+  constructor(field: FlowField, seed: number) {
+    this.field = field;
+    this.seed = seed;
+  }
+
+  /** Switches to another field; noise keeps the seed it was built with */
+  public setField(field: FlowField): void {
+    this.field = field;
+  }
+
+  public get isStill(): boolean {
+    const f = this.field;
+    switch (f.kind) {
+      case 'uniform': return f.vx === 0 && f.vy === 0;
+      case 'poiseuille': return f.maxSpeed === 0;
+      case 'vortices': return f.vortices.length === 0;
+      case 'noise': return f.strength === 0;
+    }
+  }
+
+  /** Flow velocity at (x, y) in a world of the given size at `frame` */
+  public sample(x: number, y: number, frame: number, width: number, height: number): [number, number] {
+    const f = this.field;
+    switch (f.kind) {
+      case 'uniform':
+        return [f.vx, f.vy];
+
+      case 'poiseuille': {
+        const t = Math.min(1, Math.max(0, y / height));
+        return [4 * f.maxSpeed * t * (1 - t), 0];
+      }
+
+      case 'vortices': {
+        let vx = 0;
+        let vy = 0;
+        for (const v of f.vortices) {
+          const dx = x - v.x * width;
+          const dy = y - v.y * height;
+          const dist = Math.hypot(dx, dy);
+          if (dist < 1e-9) continue;
+          // Rankine vortex: solid rotation inside the core, decaying as 1/r outside
+          const radius = Math.max(v.radius, 1e-9);
+          const speed = v.strength * (dist < radius ? dist / radius : radius / dist);
+          vx += (-dy / dist) * speed;
+          vy += (dx / dist) * speed;
+        }
+        return [vx, vy];
+      }
+
+      case 'noise': {
+        // Curl of a noise stream function is divergence free, so particles mix without bunching up
+        this.noise ??= createNoise3D(createSeededRandom((this.seed ^ NOISE_SEED_SALT) >>> 0));
+        const scale = Math.max(f.scale, 1e-9);
+        const u = x / scale;
+        const w = y / scale;
+        const t = frame * f.evolution;
+        const dPsiDu = (this.noise(u + CURL_EPSILON, w, t) - this.noise(u - CURL_EPSILON, w, t)) / (2 * CURL_EPSILON);
+        const dPsiDw = (this.noise(u, w + CURL_EPSILON, t) - this.noise(u, w - CURL_EPSILON, t)) / (2 * CURL_EPSILON);
+        return [f.strength * dPsiDw, -f.strength * dPsiDu];
+      }
+    }
+  }
+}
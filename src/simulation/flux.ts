@@ -0,0 +1,69 @@
+import type { ReactionFlux } from './types';
+
+/**
+ * Per-reaction firing statistics.
+ *
+ * Keeps lifetime totals and counts within a sliding window of recent frames,
+ * plus how often a reaction was attempted but lost the efficiency roll.
+ */
+export class ReactionFluxTracker {
+  public readonly windowFrames: number;
+
+  private totals = new Map<string, number>();
+  private windowCounts = new Map<string, number>();
+  private failedRolls = new Map<string, number>();
+
+  // Firings still inside the window, oldest first; `head` marks the oldest live entry
+  private recent: { frame: number; id: string }[] = [];
+  private head = 0;
+
+  constructor(windowFrames: number) {
+    this.windowFrames = windowFrames;
+  }
+
+  public clear(): void {
+    this.totals.clear();
+    this.windowCounts.clear();
+    this.failedRolls.clear();
+    this.recent = [];
+    this.head = 0;
+  }
+
+  public recordFiring(id: string, frame: number): void {
+    this.totals.set(id, (this.totals.get(id) ?? 0) + 1);
+    this.windowCounts.set(id, (this.windowCounts.get(id) ?? 0) + 1);
+    this.recent.push({ frame, id });
+  }
+
+  public recordFailedRoll(id: string): void {
+    this.failedRolls.set(id, (this.failedRolls.get(id) ?? 0) + 1);
+  }
+
+  /** Drops firings that have fallen out of the window ending at `frame` */
+  public advance(frame: number): void {
+    const oldest = frame - this.windowFrames;
+    while (this.head < this.recent.length && this.recent[this.head].frame <= oldest) {
+      const { id } = this.recent[this.head++];
+      this.windowCounts.set(id, (this.windowCounts.get(id) ?? 1) - 1);
+    }
+    // Compact occasionally so the queue does not grow without bound
+    if (this.head > 1024 && this.head * 2 > this.recent.length) {
+      this.recent = this.recent.slice(this.head);
+      this.head = 0;
+    }
+  }
+
+  public windowCount(id: string): number {
+    return this.windowCounts.get(id) ?? 0;
+  }
+
+  /** Flux figures for the given reactions, in the same order */
+  public report(ids: Iterable<string>): ReactionFlux[] {
+    return Array.from(ids, id => ({
+      id,
+      total: this.totals.get(id) ?? 0,
+      window: this.windowCounts.get(id) ?? 0,
+      failedRolls: this.failedRolls.get(id) ?? 0,
+    }));
+  }
+}
@@ -0,0 +1,92 @@
+import type { SimulationParams, SimulationState, SimulationStats } from './types'
+import { Simulation } from './simulation'
+
+/**
+ * Headless driver for the simulation.
+ *
+ * Runs the Simulation without a worker or renderer and hands sampled stats
+ * to a callback. Contains no Node or DOM APIs so it can be reused anywhere.
+ */
+
+export type HeadlessOutputFormat = 'csv' | 'ndjson'
+
+export interface HeadlessRunOptions {
+  steps: number; // Number of step() calls to perform
+  sampleEvery: number; // Record stats every N frames (frame 0 is always recorded)
+  onSample: (state: SimulationState) => void;
+  onProgress?: (frame: number) => void; // Called once per sample, e.g. for progress output
+}
+
+/**
+ * Builds a fresh simulation from params, runs it for the requested steps
+ * and reports stats at the sampling interval. Returns the simulation in its
+ * final state, e.g. to export the cluster genealogy.
+ */
+export function runHeadless(params: SimulationParams, options: HeadlessRunOptions): Simulation {
+  const simulation = new Simulation(params)
+  simulation.initialize()
+
+  const sampleEvery = Math.max(1, Math.floor(options.sampleEvery))
+  options.onSample(simulation.exportState())
+
+  for (let frame = 1; frame <= options.steps; frame++) {
+    simulation.step()
+    if (frame % sampleEvery === 0 || frame === options.steps) {
+      options.onSample(simulation.exportState())
+      options.onProgress?.(frame)
+    }
+  }
+  return simulation
+}
+
+interface CsvColumn {
+  header: string
+  value: (stats: SimulationStats) => unknown
+}
+
+/**
+ * Serializes stats samples one line at a time.
+ * CSV columns are fixed by the first sample so every row lines up with the header.
+ * Species counts get one column per species in `speciesNames`, or in the first
+ * sample if it has more, named e.g. particleCountBinder. Pass the current registry
+ * so species added mid-run keep their columns; earlier samples count 0 for them.
+ */
+export function createStatsFormatter(
+  format: HeadlessOutputFormat,
+  speciesNames: string[] = [],
+): (stats: SimulationStats) => string {
+  if (format === 'ndjson') return (stats) => JSON.stringify(stats) + '\n'
+
+  let columns: CsvColumn[] | null = null
+  return (stats) => {
+    let out = ''
+    if (!columns) {
+      columns = (Object.keys(stats) as (keyof SimulationStats)[]).flatMap((key): CsvColumn[] => {
+        if (key !== 'speciesCounts') return [{ header: key, value: (s) => s[key] }]
+        const speciesCount = Math.max(speciesNames.length, stats.speciesCounts.length)
+        return Array.from({ length: speciesCount }, (_, type): CsvColumn => ({
+          header: `particleCount${(speciesNames[type] ?? String(type)).replace(/\W/g, '_')}`,
+          value: (s) => s.speciesCounts[type] ?? 0,
+        }))
+      })
+      out += columns.map((column) => column.header).join(',') + '\n'
+    }
+    out += columns.map((column) => column.value(stats)).join(',') + '\n'
+    return out
+  }
+}
+
+/**
+ * Serializes full samples for the headless runner. CSV holds the flat stats only;
+ * NDJSON additionally carries the per-reaction flux of each sample.
+ */
+export function createSampleFormatter(
+  format: HeadlessOutputFormat,
+  speciesNames: string[] = [],
+): (state: SimulationState) => string {
+  if (format === 'ndjson') {
+    return (state) => JSON.stringify({ ...state.stats, reactionFlux: state.reactionFlux }) + '\n'
+  }
+  const formatStats = createStatsFormatter('csv', speciesNames)
+  return (state) => formatStats(state.stats)
+}
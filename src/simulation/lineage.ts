@@ -0,0 +1,236 @@
+import type { Genealogy, GenealogyFormat, Lineage, LineageEvent, LineageId, LineageState, ParticleId } from './types';
+
+/**
+ * Lineage tracking of binder clusters.
+ *
+ * Each analysis receives the current clusters as lists of particle IDs. A
+ * previous cluster and a current one are linked when they share at least
+ * LINK_OVERLAP of the smaller cluster's members. A cluster linked one-to-one
+ * continues its lineage; anything else starts a new lineage whose parents are
+ * the linked clusters, so a division ends the parent and founds one lineage per
+ * daughter. Particle IDs are never reused, so shared IDs are shared binders.
+ *
+ * Only the latest MAX_EVENTS events are kept, and ended lineages are forgotten
+ * LINEAGE_RETENTION_FRAMES after they end, so long runs keep a bounded record.
+ */
+
+// Fraction of the smaller cluster that must carry over for two clusters to be related
+const LINK_OVERLAP = 0.5;
+const MAX_EVENTS = 10000;
+const LINEAGE_RETENTION_FRAMES = 50000;
+
+interface Link {
+  prev: number; // Index into the previous clusters
+  next: number; // Index into the current clusters
+  shared: number;
+}
+
+export class LineageTracker {
+  private nextId: LineageId = 0;
+  private frame = 0;
+  private lineages = new Map<LineageId, Lineage>(); // In ID order
+  // Events oldest first; `head` marks the oldest one kept
+  private events: LineageEvent[] = [];
+  private head = 0;
+  private clusters: { lineage: LineageId; members: ParticleId[] }[] = [];
+  private fissions = 0;
+  private fusions = 0;
+
+  public reset(): void {
+    this.nextId = 0;
+    this.frame = 0;
+    this.lineages.clear();
+    this.events = [];
+    this.head = 0;
+    this.clusters = [];
+    this.fissions = 0;
+    this.fusions = 0;
+  }
+
+  /** Lineages alive at the latest analysis */
+  public get liveCount(): number {
+    return this.clusters.length;
+  }
+
+  public get fissionCount(): number {
+    return this.fissions;
+  }
+
+  public get fusionCount(): number {
+    return this.fusions;
+  }
+
+  /** Matches the clusters found at `frame` against the previous analysis and records what changed */
+  public update(frame: number, clusters: ParticleId[][]): void {
+    const previous = this.clusters;
+    const owner = new Map<ParticleId, number>();
+    previous.forEach((cluster, i) => {
+      for (const id of cluster.members) owner.set(id, i);
+    });
+
+    const parentsOf: Link[][] = clusters.map(() => []);
+    const childrenOf: Link[][] = previous.map(() => []);
+    clusters.forEach((members, next) => {
+      const shared = new Map<number, number>();
+      for (const id of members) {
+        const prev = owner.get(id);
+        if (prev !== undefined) shared.set(prev, (shared.get(prev) ?? 0) + 1);
+      }
+      for (const [prev, n] of shared) {
+        if (n < LINK_OVERLAP * Math.min(previous[prev].members.length, members.length)) continue;
+        const link = { prev, next, shared: n };
+        parentsOf[next].push(link);
+        childrenOf[prev].push(link);
+      }
+    });
+    const continues = (link: Link) => parentsOf[link.next].length === 1 && childrenOf[link.prev].length === 1;
+
+    // Current clusters either continue their single parent or found a new lineage
+    this.clusters = clusters.map((members, next) => {
+      const size = members.length;
+      const parents = parentsOf[next];
+      if (parents.length === 1 && continues(parents[0])) {
+        const lineage = this.lineages.get(previous[parents[0].prev].lineage)!;
+        // Only new peaks count as growth, so a cluster that fluctuates in size does not flood the log
+        if (size > lineage.peakSize) {
+          this.record({ frame, kind: 'growth', parents: [lineage.id], children: [lineage.id], size });
+        }
+        lineage.size = size;
+        lineage.peakSize = Math.max(lineage.peakSize, size);
+        return { lineage: lineage.id, members };
+      }
+
+      const id = this.nextId++;
+      const parentIds = [...parents]
+        .sort((a, b) => b.shared - a.shared || previous[a.prev].lineage - previous[b.prev].lineage)
+        .map(link => previous[link.prev].lineage);
+      this.lineages.set(id, { id, parents: parentIds, birthFrame: frame, endFrame: null, fate: 'alive', size, peakSize: size });
+      if (parentIds.length === 0) {
+        this.record({ frame, kind: 'birth', parents: [], children: [id], size });
+      } else if (parentIds.length > 1) {
+        this.record({ frame, kind: 'fusion', parents: parentIds, children: [id], size });
+        this.fusions++;
+      }
+      return { lineage: id, members };
+    });
+
+    // Previous clusters that did not continue have died, divided or fused
+    previous.forEach((cluster, prev) => {
+      const children = childrenOf[prev];
+      if (children.length === 1 && continues(children[0])) return;
+      const lineage = this.lineages.get(cluster.lineage)!;
+      lineage.endFrame = frame;
+      if (children.length === 0) {
+        lineage.fate = 'death';
+        this.record({ frame, kind: 'death', parents: [lineage.id], children: [], size: lineage.size });
+      } else if (children.length > 1) {
+        lineage.fate = 'fission';
+        this.record({
+          frame,
+          kind: 'fission',
+          parents: [lineage.id],
+          children: children.map(link => this.clusters[link.next].lineage),
+          size: children.reduce((sum, link) => sum + clusters[link.next].length, 0),
+        });
+        this.fissions++;
+      } else {
+        lineage.fate = 'fusion';
+      }
+    });
+
+    for (const lineage of this.lineages.values()) {
+      if (lineage.endFrame !== null && frame - lineage.endFrame > LINEAGE_RETENTION_FRAMES) this.lineages.delete(lineage.id);
+    }
+    this.frame = frame;
+  }
+
+  /** Appends an event, dropping the oldest beyond MAX_EVENTS */
+  private record(event: LineageEvent): void {
+    this.events.push(event);
+    if (this.events.length - this.head > MAX_EVENTS) this.head++;
+    // Compact occasionally so dropped events are released
+    if (this.head > 1024 && this.head * 2 > this.events.length) {
+      this.events = this.events.slice(this.head);
+      this.head = 0;
+    }
+  }
+
+  public genealogy(): Genealogy {
+    return {
+      frame: this.frame,
+      lineages: Array.from(this.lineages.values(), lineage => ({ ...lineage, parents: [...lineage.parents] })),
+      events: this.events.slice(this.head).map(event => ({ ...event, parents: [...event.parents], children: [...event.children] })),
+    };
+  }
+
+  public exportState(): LineageState {
+    return {
+      ...this.genealogy(),
+      nextId: this.nextId,
+      clusters: this.clusters.map(cluster => ({ lineage: cluster.lineage, members: [...cluster.members] })),
+      fissions: this.fissions,
+      fusions: this.fusions,
+    };
+  }
+
+  public loadState(state: LineageState): void {
+    this.nextId = state.nextId;
+    this.frame = state.frame;
+    this.lineages = new Map(state.lineages.map(lineage => [lineage.id, { ...lineage, parents: [...lineage.parents] }]));
+    this.events = state.events.map(event => ({ ...event, parents: [...event.parents], children: [...event.children] }));
+    this.head = Math.max(0, this.events.length - MAX_EVENTS);
+    this.clusters = state.clusters.map(cluster => ({ lineage: cluster.lineage, members: [...cluster.members] }));
+    this.fissions = state.fissions ?? this.events.filter(event => event.kind === 'fission').length;
+    this.fusions = state.fusions ?? this.events.filter(event => event.kind === 'fusion').length;
+  }
+}
+
+/**
+ * Writes the genealogy as Newick, one tree per founding lineage and line.
+ * Newick cannot express merging, so a fused lineage is placed under its
+ * primary parent only, and lineages whose parent was forgotten found trees of
+ * their own. Branch lengths are lifetimes in frames, up to the latest analysis
+ * for lineages still alive.
+ */
+export function genealogyToNewick(genealogy: Genealogy): string {
+  const byId = new Map(genealogy.lineages.map(lineage => [lineage.id, lineage]));
+  const childrenOf = new Map<LineageId, LineageId[]>();
+  const roots: Lineage[] = [];
+  for (const lineage of genealogy.lineages) {
+    const [parent] = lineage.parents;
+    if (parent === undefined || !byId.has(parent)) {
+      roots.push(lineage);
+      continue;
+    }
+    const siblings = childrenOf.get(parent);
+    if (siblings) siblings.push(lineage.id);
+    else childrenOf.set(parent, [lineage.id]);
+  }
+
+  const label = (lineage: Lineage) => `L${lineage.id}:${(lineage.endFrame ?? genealogy.frame) - lineage.birthFrame}`;
+
+  // Post-order walk with an explicit stack, since division chains can run deeper than the call stack
+  const trees = roots.map(root => {
+    const written = new Map<LineageId, string>();
+    const stack = [root.id];
+    while (stack.length > 0) {
+      const id = stack[stack.length - 1];
+      const children = childrenOf.get(id) ?? [];
+      const pending = children.filter(child => !written.has(child));
+      if (pending.length > 0) {
+        stack.push(...pending);
+        continue;
+      }
+      stack.pop();
+      const node = label(byId.get(id)!);
+      written.set(id, children.length > 0 ? `(${children.map(child => written.get(child)).join(',')})${node}` : node);
+    }
+    return `${written.get(root.id)};`;
+  });
+  return trees.join('\n') + (trees.length > 0 ? '\n' : '');
+}
+
+/** Serializes a genealogy for download or a headless run's output file */
+export function formatGenealogy(genealogy: Genealogy, format: GenealogyFormat): string {
+  return format === 'newick' ? genealogyToNewick(genealogy) : JSON.stringify(genealogy);
+}
@@ -0,0 +1,231 @@
+import type { Obstacle, ObstaclePoint } from './types';
+
+/**
+ * Static world geometry.
+ *
+ * Obstacles are compiled into three kinds of primitive: discs, thick segments
+ * (capsules) and solid polygons. Particles are treated as discs and pushed out
+ * of any primitive they overlap. Moves are taken in sub-steps no longer than
+ * the particle radius, so fast particles cannot tunnel through thin walls.
+ */
+
+interface Disc { x: number; y: number; radius: number }
+interface Segment { x1: number; y1: number; x2: number; y2: number; halfThickness: number }
+
+// Particles can sit in a corner touching several primitives; a few passes settle them
+const PROJECTION_PASSES = 3;
+// Upper bound on sub-steps per move, for pathological step lengths
+const MAX_SUBSTEPS = 32;
+
+/**
+ * Wall segments of a channel: two parallel walls `width` apart around the
+ * centerline, each interrupted by pores of `poreSize` every `poreSpacing`.
+ */
+export function channelWalls(channel: Extract<Obstacle, { kind: 'channel' }>): Segment[] {
+  const { x1, y1, x2, y2, width, wallThickness, poreSize, poreSpacing } = channel;
+  const length = Math.hypot(x2 - x1, y2 - y1);
+  if (length === 0) return [];
+  const ux = (x2 - x1) / length;
+  const uy = (y2 - y1) / length;
+  const nx = -uy;
+  const ny = ux;
+
+  // Intervals along the centerline that are solid wall, between pores
+  const solid: [number, number][] = [];
+  if (poreSize > 0 && poreSpacing > 0) {
+    let start = 0;
+    for (let center = poreSpacing / 2; center < length; center += poreSpacing) {
+      const gapStart = Math.max(0, center - poreSize / 2);
+      const gapEnd = Math.min(length, center + poreSize / 2);
+      if (gapStart > start) solid.push([start, gapStart]);
+      start = gapEnd;
+    }
+    if (start < length) solid.push([start, length]);
+  } else {
+    solid.push([0, length]);
+  }
+
+  const walls: Segment[] = [];
+  for (const side of [-1, 1]) {
+    const ox = nx * side * width / 2;
+    const oy = ny * side * width / 2;
+    for (const [from, to] of solid) {
+      walls.push({
+        x1: x1 + ux * from + ox, y1: y1 + uy * from + oy,
+        x2: x1 + ux * to + ox, y2: y1 + uy * to + oy,
+        halfThickness: wallThickness / 2,
+      });
+    }
+  }
+  return walls;
+}
+
+/** Closest point to (px, py) on segment (x1, y1)-(x2, y2) */
+function closestOnSegment(px: number, py: number, x1: number, y1: number, x2: number, y2: number): [number, number] {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSq)) : 0;
+  return [x1 + t * dx, y1 + t * dy];
+}
+
+/** Even-odd point-in-polygon test */
+function insidePolygon(px: number, py: number, points: ObstaclePoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > py) !== (b.y > py) && px < ((b.x - a.x) * (py - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Whether world point (x, y) lies on or within `tolerance` of an obstacle,
+ * e.g. to pick obstacles with the pointer.
+ */
+export function obstacleHitTest(obstacle: Obstacle, x: number, y: number, tolerance: number): boolean {
+  const field = new ObstacleField([obstacle]);
+  return field.overlaps(x, y, tolerance);
+}
+
+/**
+ * Compiled obstacle geometry used by the simulation for collisions.
+ */
+export class ObstacleField {
+  private discs: Disc[] = [];
+  private segments: Segment[] = [];
+  private polygons: ObstaclePoint[][] = [];
+
+  constructor(obstacles: Obstacle[]) {
+    for (const o of obstacles) {
+      if (o.kind === 'circle') this.discs.push({ x: o.x, y: o.y, radius: o.radius });
+      else if (o.kind === 'wall') this.segments.push({ x1: o.x1, y1: o.y1, x2: o.x2, y2: o.y2, halfThickness: o.thickness / 2 });
+      else if (o.kind === 'channel') this.segments.push(...channelWalls(o));
+      else if (o.points.length >= 3) this.polygons.push(o.points.map(p => ({ ...p })));
+    }
+  }
+
+  public get isEmpty(): boolean {
+    return this.discs.length === 0 && this.segments.length === 0 && this.polygons.length === 0;
+  }
+
+  /** Whether a disc of `radius` at (x, y) overlaps any obstacle */
+  public overlaps(x: number, y: number, radius: number): boolean {
+    for (const d of this.discs) {
+      if (Math.hypot(x - d.x, y - d.y) < d.radius + radius) return true;
+    }
+    for (const s of this.segments) {
+      const [qx, qy] = closestOnSegment(x, y, s.x1, s.y1, s.x2, s.y2);
+      if (Math.hypot(x - qx, y - qy) < s.halfThickness + radius) return true;
+    }
+    for (const points of this.polygons) {
+      if (insidePolygon(x, y, points)) return true;
+      for (let i = 0; i < points.length; i++) {
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        const [qx, qy] = closestOnSegment(x, y, a.x, a.y, b.x, b.y);
+        if (Math.hypot(x - qx, y - qy) < radius) return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Moves a disc of `radius` from (x0, y0) towards (x1, y1), sliding along any
+   * obstacle in the way. Returns the reachable end position.
+   */
+  public constrainMove(x0: number, y0: number, x1: number, y1: number, radius: number): [number, number] {
+    if (this.isEmpty) return [x1, y1];
+    const length = Math.hypot(x1 - x0, y1 - y0);
+    const steps = Math.min(MAX_SUBSTEPS, Math.max(1, Math.ceil(length / Math.max(radius, 0.5))));
+    const dx = (x1 - x0) / steps;
+    const dy = (y1 - y0) / steps;
+    let x = x0;
+    let y = y0;
+    for (let i = 0; i < steps; i++) {
+      [x, y] = this.pushOut(x + dx, y + dy, radius);
+    }
+    return [x, y];
+  }
+
+  /** Pushes a disc of `radius` at (x, y) out of every obstacle it overlaps */
+  public pushOut(x: number, y: number, radius: number): [number, number] {
+    for (let pass = 0; pass < PROJECTION_PASSES; pass++) {
+      let moved = false;
+
+      for (const d of this.discs) {
+        const dx = x - d.x;
+        const dy = y - d.y;
+        const dist = Math.hypot(dx, dy);
+        const minDist = d.radius + radius;
+        if (dist >= minDist) continue;
+        const ux = dist > 1e-9 ? dx / dist : 1;
+        const uy = dist > 1e-9 ? dy / dist : 0;
+        x = d.x + ux * minDist;
+        y = d.y + uy * minDist;
+        moved = true;
+      }
+
+      for (const s of this.segments) {
+        const [qx, qy] = closestOnSegment(x, y, s.x1, s.y1, s.x2, s.y2);
+        const dx = x - qx;
+        const dy = y - qy;
+        const dist = Math.hypot(dx, dy);
+        const minDist = s.halfThickness + radius;
+        if (dist >= minDist) continue;
+        let ux: number;
+        let uy: number;
+        if (dist > 1e-9) {
+          ux = dx / dist;
+          uy = dy / dist;
+        } else {
+          // Exactly on the centerline: leave along the segment normal
+          const length = Math.hypot(s.x2 - s.x1, s.y2 - s.y1) || 1;
+          ux = -(s.y2 - s.y1) / length;
+          uy = (s.x2 - s.x1) / length;
+        }
+        x = qx + ux * minDist;
+        y = qy + uy * minDist;
+        moved = true;
+      }
+
+      for (const points of this.polygons) {
+        // Nearest point on the outline
+        let bestDist = Infinity;
+        let bx = 0;
+        let by = 0;
+        for (let i = 0; i < points.length; i++) {
+          const a = points[i];
+          const b = points[(i + 1) % points.length];
+          const [qx, qy] = closestOnSegment(x, y, a.x, a.y, b.x, b.y);
+          const dist = Math.hypot(x - qx, y - qy);
+          if (dist < bestDist) {
+            bestDist = dist;
+            bx = qx;
+            by = qy;
+          }
+        }
+        const inside = insidePolygon(x, y, points);
+        if (!inside && bestDist >= radius) continue;
+        // Outward direction: away from the outline when outside, towards it when inside
+        let ux = inside ? bx - x : x - bx;
+        let uy = inside ? by - y : y - by;
+        const length = Math.hypot(ux, uy);
+        if (length > 1e-9) {
+          ux /= length;
+          uy /= length;
+        } else {
+          ux = 1;
+          uy = 0;
+        }
+        x = bx + ux * radius;
+        y = by + uy * radius;
+        moved = true;
+      }
+
+      if (!moved) break;
+    }
+    return [x, y];
+  }
+}
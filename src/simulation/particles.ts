@@ -1,50 +1,276 @@
-import type { ParticleId } from './types';
-import { ParticleType } from './types';
+import type { EnergyMotion, ParticleId, ParticleOrigin, ParticleType } from './types';
+import { MAX_PARTICIPANTS } from './reactions';
 
 /**
- * Base particle class with common properties
+ * Structure-of-arrays particle storage.
+ *
+ * Each particle property lives in its own typed array indexed by slot. Slots of
+ * removed particles are recycled, always handing out the lowest free slot first,
+ * so the slot layout (and with it iteration order) depends only on which slots
+ * are occupied. Iterate slots in [0, highWater) and skip those not `active`.
  */
-abstract class Particle {
-  public id: ParticleId;
-  public x: number;
-  public y: number;
-  public active: boolean = true;
 
-  constructor(id: ParticleId, x: number, y: number) {
-    this.id = id;
-    this.x = x;
-    this.y = y;
+type Column = Float64Array | Uint8Array;
+
+/** Copies a column into a new array of the given length */
+function resized<T extends Column>(column: T, length: number): T {
+  const next = new (column.constructor as new (length: number) => T)(length);
+  next.set(column.subarray(0, Math.min(column.length, length)));
+  return next;
+}
+
+/**
+ * Base slot bookkeeping and the columns shared by all particle kinds
+ */
+abstract class ParticleStore {
+  public capacity = 0;
+  public highWater = 0; // Every slot ever handed out is below this bound
+  public used = new Uint8Array(0); // Slot holds a particle (possibly inactive until cleanup)
+  public active = new Uint8Array(0); // Particle takes part in the simulation
+  public id = new Float64Array(0);
+  public x = new Float64Array(0);
+  public y = new Float64Array(0);
+
+  // Binary min-heap of free slots below highWater
+  private freeSlots: number[] = [];
+
+  public clear(): void {
+    this.used.fill(0);
+    this.active.fill(0);
+    this.highWater = 0;
+    this.freeSlots = [];
+  }
+
+  /** Reserves the lowest free slot, growing storage when none is left */
+  protected allocate(): number {
+    const slot = this.freeSlots.length > 0 ? this.popFree() : this.highWater++;
+    if (slot >= this.capacity) this.resize(Math.max(64, this.capacity * 2));
+    this.used[slot] = 1;
+    this.active[slot] = 1;
+    return slot;
+  }
+
+  /** Returns a slot to the free list */
+  public release(slot: number): void {
+    this.used[slot] = 0;
+    this.active[slot] = 0;
+    this.pushFree(slot);
+  }
+
+  /** Releases every slot whose particle was deactivated during the step */
+  public releaseInactive(): void {
+    for (let s = 0; s < this.highWater; s++) {
+      if (this.used[s] && !this.active[s]) this.release(s);
+    }
+  }
+
+  /**
+   * Reserves a specific slot, e.g. when restoring a snapshot.
+   * Call rebuildFreeSlots() after placing every particle.
+   */
+  protected allocateAt(slot: number): number {
+    while (slot >= this.capacity) this.resize(Math.max(64, this.capacity * 2));
+    this.used[slot] = 1;
+    this.active[slot] = 1;
+    if (slot >= this.highWater) this.highWater = slot + 1;
+    return slot;
+  }
+
+  /** Marks every unused slot below highWater as free */
+  public rebuildFreeSlots(): void {
+    this.freeSlots = [];
+    for (let s = 0; s < this.highWater; s++) {
+      if (!this.used[s]) this.pushFree(s);
+    }
+  }
+
+  /** Number of active particles */
+  public countActive(): number {
+    let n = 0;
+    for (let s = 0; s < this.highWater; s++) n += this.active[s];
+    return n;
+  }
+
+  /** Writes the active slots in ascending order into `out`, returning how many */
+  public collectActive(out: Int32Array): number {
+    let n = 0;
+    for (let s = 0; s < this.highWater; s++) {
+      if (this.active[s]) out[n++] = s;
+    }
+    return n;
   }
 
-  // Base particle has no intrinsic per-tick behavior in this model
+  protected resize(capacity: number): void {
+    this.capacity = capacity;
+    this.used = resized(this.used, capacity);
+    this.active = resized(this.active, capacity);
+    this.id = resized(this.id, capacity);
+    this.x = resized(this.x, capacity);
+    this.y = resized(this.y, capacity);
+  }
+
+  private pushFree(slot: number): void {
+    const heap = this.freeSlots;
+    let i = heap.push(slot) - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent] <= heap[i]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  }
+
+  private popFree(): number {
+    const heap = this.freeSlots;
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < heap.length && heap[l] < heap[m]) m = l;
+        if (r < heap.length && heap[r] < heap[m]) m = r;
+        if (m === i) break;
+        [heap[m], heap[i]] = [heap[i], heap[m]];
+        i = m;
+      }
+    }
+    return top;
+  }
 }
 
 /**
- * A generic particle class for the substrate/product types (A, B, C, D, E).
+ * Substrate particles (A, B, C, D, E, Binder, Attractor).
  * Their specific behavior is determined by the reaction catalog in the main simulation.
  */
-export class SubstrateParticle extends Particle {
-  public energy: number = 0; // Internal energy for visualization
-  public type: ParticleType;
-  public birthFrame: number; // Frame at which the particle was created
+export class SubstrateStore extends ParticleStore {
+  public type = new Uint8Array(0);
+  public birthFrame = new Float64Array(0); // Frame at which the particle was created
+  public energy = new Float64Array(0); // Recent reaction glow for visualization
+  public storedEnergy = new Float64Array(0); // Internal energy, only gained in thermodynamic mode
+  // Provenance, see ParticleProvenance; placed particles have reaction -1
+  public generation = new Float64Array(0);
+  public reaction = new Float64Array(0); // Index into reactionIds
+  public catalystId = new Float64Array(0); // -1 for uncatalyzed reactions
+  public reactantIds = new Float64Array(0); // MAX_PARTICIPANTS per slot, padded with -1
+  public offspring = new Float64Array(0);
+
+  // Reaction IDs referenced by the reaction column
+  private reactionIds: string[] = [];
+  private reactionIndex = new Map<string, number>();
 
-  constructor(id: ParticleId, x: number, y: number, type: ParticleType, birthFrame: number) {
-    super(id, x, y);
-    this.type = type;
-    this.birthFrame = birthFrame;
+  public clear(): void {
+    super.clear();
+    this.reactionIds = [];
+    this.reactionIndex.clear();
   }
 
-  update(currentFrame: number, globalLifespan: number): void {
-    // Age-based deactivation: compare current frame to birthFrame
-    // Movement is handled by the main simulation loop
-    const age = currentFrame - this.birthFrame;
-    if (age >= globalLifespan) this.active = false;
+  /** Adds a particle with no origin at generation 0 */
+  public add(id: ParticleId, x: number, y: number, type: ParticleType, birthFrame: number, slot?: number): number {
+    const s = slot === undefined ? this.allocate() : this.allocateAt(slot);
+    this.id[s] = id;
+    this.x[s] = x;
+    this.y[s] = y;
+    this.type[s] = type;
+    this.birthFrame[s] = birthFrame;
+    this.energy[s] = 0;
+    this.storedEnergy[s] = 0;
+    this.generation[s] = 0;
+    this.reaction[s] = -1;
+    this.catalystId[s] = -1;
+    this.reactantIds.fill(-1, s * MAX_PARTICIPANTS, (s + 1) * MAX_PARTICIPANTS);
+    this.offspring[s] = 0;
+    return s;
+  }
+
+  /** Records which reaction produced the particle in `slot`, from which particles */
+  public setOrigin(slot: number, origin: ParticleOrigin, generation: number): void {
+    let index = this.reactionIndex.get(origin.reactionId);
+    if (index === undefined) {
+      index = this.reactionIds.push(origin.reactionId) - 1;
+      this.reactionIndex.set(origin.reactionId, index);
+    }
+    this.reaction[slot] = index;
+    this.catalystId[slot] = origin.catalystId ?? -1;
+    for (let k = 0; k < MAX_PARTICIPANTS; k++) {
+      this.reactantIds[slot * MAX_PARTICIPANTS + k] = origin.reactantIds[k] ?? -1;
+    }
+    this.generation[slot] = generation;
+  }
+
+  public origin(slot: number): ParticleOrigin | null {
+    if (this.reaction[slot] < 0) return null;
+    const reactantIds: ParticleId[] = [];
+    for (let k = 0; k < MAX_PARTICIPANTS; k++) {
+      const id = this.reactantIds[slot * MAX_PARTICIPANTS + k];
+      if (id >= 0) reactantIds.push(id);
+    }
+    return {
+      reactionId: this.reactionIds[this.reaction[slot]],
+      catalystId: this.catalystId[slot] >= 0 ? this.catalystId[slot] : null,
+      reactantIds,
+    };
+  }
+
+  /** Age-based deactivation: compare current frame to birthFrame */
+  public expire(currentFrame: number, globalLifespan: number): void {
+    for (let s = 0; s < this.highWater; s++) {
+      if (this.active[s] && currentFrame - this.birthFrame[s] >= globalLifespan) this.active[s] = 0;
+    }
+  }
+
+  protected resize(capacity: number): void {
+    super.resize(capacity);
+    this.type = resized(this.type, capacity);
+    this.birthFrame = resized(this.birthFrame, capacity);
+    this.energy = resized(this.energy, capacity);
+    this.storedEnergy = resized(this.storedEnergy, capacity);
+    this.generation = resized(this.generation, capacity);
+    this.reaction = resized(this.reaction, capacity);
+    this.catalystId = resized(this.catalystId, capacity);
+    this.reactantIds = resized(this.reactantIds, capacity * MAX_PARTICIPANTS);
+    this.offspring = resized(this.offspring, capacity);
   }
 }
 
 /**
- * Energy particle - flows from left to right, powers reactions
+ * Energy particles - drift with the flow of the source that spawned them, power reactions.
+ * Movement is handled by the main simulation loop.
  */
-export class EnergyParticle extends Particle {
-  // Movement is handled by the main simulation loop
-}
\ No newline at end of file
+export class EnergyStore extends ParticleStore {
+  // Per-frame motion, see EnergyMotion
+  public vx = new Float64Array(0);
+  public vy = new Float64Array(0);
+  public jx = new Float64Array(0);
+  public jy = new Float64Array(0);
+  public amount = new Float64Array(0); // Energy carried, 1 outside thermodynamic mode
+
+  public add(id: ParticleId, x: number, y: number, motion: EnergyMotion, amount: number, slot?: number): number {
+    const s = slot === undefined ? this.allocate() : this.allocateAt(slot);
+    this.id[s] = id;
+    this.x[s] = x;
+    this.y[s] = y;
+    this.vx[s] = motion.vx;
+    this.vy[s] = motion.vy;
+    this.jx[s] = motion.jx;
+    this.jy[s] = motion.jy;
+    this.amount[s] = amount;
+    return s;
+  }
+
+  public motion(slot: number): EnergyMotion {
+    return { vx: this.vx[slot], vy: this.vy[slot], jx: this.jx[slot], jy: this.jy[slot] };
+  }
+
+  protected resize(capacity: number): void {
+    super.resize(capacity);
+    this.vx = resized(this.vx, capacity);
+    this.vy = resized(this.vy, capacity);
+    this.jx = resized(this.jx, capacity);
+    this.jy = resized(this.jy, capacity);
+    this.amount = resized(this.amount, capacity);
+  }
+}
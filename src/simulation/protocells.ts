@@ -0,0 +1,307 @@
+import type { ParticleType, Protocell } from './types';
+import { SpatialGrid } from './spatialGrid';
+
+/**
+ * Protocell detection.
+ *
+ * Binders closer than CONTACT_DISTANCE_IN_R radii touch; touching binders form
+ * membrane clusters. The simulation passes the radius of its largest species,
+ * so membranes of large particles close too. Binders and their contacts are
+ * rasterized onto a grid of cells one such diameter wide, and the space
+ * reachable from the world edge is flooded. Whatever empty space the flood
+ * cannot reach lies inside a closed membrane; each connected pocket of it is
+ * one protocell. Membranes that only close across a periodic edge are not recognized.
+ */
+
+// Binders at most this many radii apart touch; binders repel below 2 and attract up to binderForceUnitDistanceInR
+const CONTACT_DISTANCE_IN_R = 3;
+// Pockets smaller than this many cells are gaps inside a binder clump rather than compartments
+const MIN_INTERIOR_CELLS = 2;
+
+// Cell labels; positive labels number the enclosed pockets
+const UNVISITED = 0;
+const WALL = -1;
+const OUTSIDE = -2;
+
+export class ProtocellDetector {
+  private grid = new SpatialGrid();
+  private handles = new Int32Array(0);
+  private binderSlots = new Int32Array(0);
+  private bx = new Float64Array(0);
+  private by = new Float64Array(0);
+  private parent = new Int32Array(0); // Union-find over binder indices
+  private labels = new Int32Array(0); // Per raster cell
+  private owners = new Int32Array(0); // Binder that walled off a cell
+  private queue = new Int32Array(0);
+
+  /**
+   * Finds the protocells among the `count` substrate particles in `slots`,
+   * in a world of the given size. Particles whose type is flagged in `sticky`
+   * act as binders.
+   */
+  public detect(
+    slots: Int32Array,
+    count: number,
+    xs: Float64Array,
+    ys: Float64Array,
+    types: Uint8Array,
+    sticky: Uint8Array,
+    width: number,
+    height: number,
+    radius: number,
+  ): Protocell[] {
+    const binderCount = this.collectBinders(slots, count, xs, ys, types, sticky);
+    // Three binders are the fewest that can close a loop
+    if (binderCount < 3 || radius <= 0) return [];
+
+    const edges = this.connectBinders(binderCount, radius);
+    const cellSize = 2 * radius;
+    const gw = Math.max(1, Math.ceil(width / cellSize));
+    const gh = Math.max(1, Math.ceil(height / cellSize));
+    this.rasterize(binderCount, edges, cellSize, gw, gh);
+    this.floodOutside(gw, gh);
+    const protocells = this.collectPockets(binderCount, cellSize, gw, gh);
+    if (protocells.length === 0) return protocells;
+
+    // Count the substrates in each pocket; binders belong to membranes, not contents
+    for (let k = 0; k < count; k++) {
+      const s = slots[k];
+      if (sticky[types[s]]) continue;
+      const label = this.labels[this.cellAt(xs[s], ys[s], cellSize, gw, gh)];
+      if (label <= 0) continue;
+      const contents = protocells[label - 1].contents;
+      const type = types[s] as ParticleType;
+      contents[type] = (contents[type] ?? 0) + 1;
+    }
+    return protocells;
+  }
+
+  /**
+   * Groups the binders among the `count` substrate particles in `slots` into
+   * clusters of touching binders, returning the slots of every cluster with
+   * at least `minSize` members, in order of their first binder.
+   */
+  public clusters(
+    slots: Int32Array,
+    count: number,
+    xs: Float64Array,
+    ys: Float64Array,
+    types: Uint8Array,
+    sticky: Uint8Array,
+    radius: number,
+    minSize: number,
+  ): number[][] {
+    const binderCount = this.collectBinders(slots, count, xs, ys, types, sticky);
+    if (binderCount === 0 || radius <= 0) return [];
+    this.connectBinders(binderCount, radius);
+
+    const byRoot = new Map<number, number[]>();
+    for (let i = 0; i < binderCount; i++) {
+      const root = this.find(i);
+      const members = byRoot.get(root);
+      if (members) members.push(this.binderSlots[i]);
+      else byRoot.set(root, [this.binderSlots[i]]);
+    }
+    return [...byRoot.values()].filter(members => members.length >= minSize);
+  }
+
+  /** Copies binder positions into dense arrays, returning how many there are */
+  private collectBinders(slots: Int32Array, count: number, xs: Float64Array, ys: Float64Array, types: Uint8Array, sticky: Uint8Array): number {
+    if (this.handles.length < count) {
+      this.handles = new Int32Array(count);
+      this.binderSlots = new Int32Array(count);
+      this.bx = new Float64Array(count);
+      this.by = new Float64Array(count);
+      this.parent = new Int32Array(count);
+    }
+    let n = 0;
+    for (let k = 0; k < count; k++) {
+      const s = slots[k];
+      if (!sticky[types[s]]) continue;
+      this.handles[n] = n;
+      this.binderSlots[n] = s;
+      this.bx[n] = xs[s];
+      this.by[n] = ys[s];
+      this.parent[n] = n;
+      n++;
+    }
+    return n;
+  }
+
+  /** Joins touching binders into clusters and returns the contacts as index pairs */
+  private connectBinders(binderCount: number, radius: number): number[] {
+    const contact = CONTACT_DISTANCE_IN_R * radius;
+    const { bx, by } = this;
+    this.grid.build(contact, this.handles, binderCount, bx, by);
+    const edges: number[] = [];
+    for (let i = 0; i < binderCount; i++) {
+      this.grid.forEachNear(bx[i], by[i], 1, (j) => {
+        if (j <= i || Math.hypot(bx[j] - bx[i], by[j] - by[i]) > contact) return;
+        edges.push(i, j);
+        const a = this.find(i);
+        const b = this.find(j);
+        if (a !== b) this.parent[Math.max(a, b)] = Math.min(a, b);
+      });
+    }
+    return edges;
+  }
+
+  private find(i: number): number {
+    const parent = this.parent;
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  }
+
+  private cellAt(x: number, y: number, cellSize: number, gw: number, gh: number): number {
+    const cx = Math.min(gw - 1, Math.max(0, Math.floor(x / cellSize)));
+    const cy = Math.min(gh - 1, Math.max(0, Math.floor(y / cellSize)));
+    return cy * gw + cx;
+  }
+
+  /** Marks the cells under binders and along their contacts as membrane wall */
+  private rasterize(binderCount: number, edges: number[], cellSize: number, gw: number, gh: number): void {
+    const cells = gw * gh;
+    if (this.labels.length < cells) {
+      this.labels = new Int32Array(cells);
+      this.owners = new Int32Array(cells);
+      this.queue = new Int32Array(cells);
+    }
+    this.labels.fill(UNVISITED, 0, cells);
+    const { bx, by } = this;
+    const wall = (x: number, y: number, owner: number) => {
+      const c = this.cellAt(x, y, cellSize, gw, gh);
+      this.labels[c] = WALL;
+      this.owners[c] = owner;
+    };
+    for (let i = 0; i < binderCount; i++) wall(bx[i], by[i], i);
+    // Samples at most half a cell apart give an 8-connected line, which a 4-connected flood cannot cross
+    for (let e = 0; e < edges.length; e += 2) {
+      const i = edges[e];
+      const j = edges[e + 1];
+      const steps = Math.ceil(Math.hypot(bx[j] - bx[i], by[j] - by[i]) / (cellSize / 2));
+      for (let s = 1; s < steps; s++) {
+        const t = s / steps;
+        wall(bx[i] + (bx[j] - bx[i]) * t, by[i] + (by[j] - by[i]) * t, i);
+      }
+    }
+  }
+
+  /** 4-connected flood fill from `start` over unvisited cells; returns the end of the filled cells in the queue */
+  private flood(start: number, label: number, head: number, gw: number, gh: number): number {
+    const { labels, queue } = this;
+    let tail = head;
+    labels[start] = label;
+    queue[tail++] = start;
+    while (head < tail) {
+      const c = queue[head++];
+      const cx = c % gw;
+      const cy = (c - cx) / gw;
+      if (cx > 0 && labels[c - 1] === UNVISITED) { labels[c - 1] = label; queue[tail++] = c - 1; }
+      if (cx < gw - 1 && labels[c + 1] === UNVISITED) { labels[c + 1] = label; queue[tail++] = c + 1; }
+      if (cy > 0 && labels[c - gw] === UNVISITED) { labels[c - gw] = label; queue[tail++] = c - gw; }
+      if (cy < gh - 1 && labels[c + gw] === UNVISITED) { labels[c + gw] = label; queue[tail++] = c + gw; }
+    }
+    return tail;
+  }
+
+  /** Labels everything reachable from the world edge as outside */
+  private floodOutside(gw: number, gh: number): void {
+    const labels = this.labels;
+    for (let cx = 0; cx < gw; cx++) {
+      for (const c of [cx, (gh - 1) * gw + cx]) {
+        if (labels[c] === UNVISITED) this.flood(c, OUTSIDE, 0, gw, gh);
+      }
+    }
+    for (let cy = 0; cy < gh; cy++) {
+      for (const c of [cy * gw, cy * gw + gw - 1]) {
+        if (labels[c] === UNVISITED) this.flood(c, OUTSIDE, 0, gw, gh);
+      }
+    }
+  }
+
+  /** Turns each enclosed pocket large enough into a protocell, labelling its cells with its index + 1 */
+  private collectPockets(binderCount: number, cellSize: number, gw: number, gh: number): Protocell[] {
+    const { labels, owners, queue } = this;
+    const protocells: Protocell[] = [];
+    for (let start = 0; start < gw * gh; start++) {
+      if (labels[start] !== UNVISITED) continue;
+      const label = protocells.length + 1;
+      const end = this.flood(start, label, 0, gw, gh);
+      if (end < MIN_INTERIOR_CELLS) {
+        for (let q = 0; q < end; q++) labels[queue[q]] = OUTSIDE;
+        continue;
+      }
+
+      // Centroid, and the membrane cluster walling in most of the pocket's edge
+      let sumX = 0;
+      let sumY = 0;
+      const wallCounts = new Map<number, number>();
+      for (let q = 0; q < end; q++) {
+        const c = queue[q];
+        const cx = c % gw;
+        const cy = (c - cx) / gw;
+        sumX += cx;
+        sumY += cy;
+        const countWall = (n: number) => {
+          if (labels[n] !== WALL) return;
+          const cluster = this.find(owners[n]);
+          wallCounts.set(cluster, (wallCounts.get(cluster) ?? 0) + 1);
+        };
+        // Bounded like flood, so cells on one edge do not see the other
+        if (cx > 0) countWall(c - 1);
+        if (cx < gw - 1) countWall(c + 1);
+        if (cy > 0) countWall(c - gw);
+        if (cy < gh - 1) countWall(c + gw);
+      }
+      let membrane = -1;
+      let best = 0;
+      for (const [cluster, n] of wallCounts) {
+        if (n > best) {
+          membrane = cluster;
+          best = n;
+        }
+      }
+      const x = (sumX / end + 0.5) * cellSize;
+      const y = (sumY / end + 0.5) * cellSize;
+
+      // Membrane binders next to the pocket, in order around it
+      let membraneSize = 0;
+      const rim: { x: number; y: number; angle: number }[] = [];
+      for (let i = 0; i < binderCount; i++) {
+        if (this.find(i) !== membrane) continue;
+        membraneSize++;
+        if (this.touchesLabel(this.bx[i], this.by[i], label, cellSize, gw, gh)) {
+          rim.push({ x: this.bx[i], y: this.by[i], angle: Math.atan2(this.by[i] - y, this.bx[i] - x) });
+        }
+      }
+      rim.sort((a, b) => a.angle - b.angle);
+
+      protocells.push({
+        x,
+        y,
+        area: end * cellSize * cellSize,
+        membraneSize,
+        contents: {},
+        outline: rim.flatMap(p => [p.x, p.y]),
+      });
+    }
+    return protocells;
+  }
+
+  /** Whether any cell in the 3×3 block around (x, y) carries `label` */
+  private touchesLabel(x: number, y: number, label: number, cellSize: number, gw: number, gh: number): boolean {
+    const cx = Math.min(gw - 1, Math.max(0, Math.floor(x / cellSize)));
+    const cy = Math.min(gh - 1, Math.max(0, Math.floor(y / cellSize)));
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = cx + dx;
+        const ny = cy + dy;
+        if (nx >= 0 && nx < gw && ny >= 0 && ny < gh && this.labels[ny * gw + nx] === label) return true;
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,93 @@
+import type { Ancestry, ParticleId, ParticleOrigin, ParticleProvenance } from './types';
+
+/**
+ * Particles that left the world after taking part in reactions, so the
+ * ancestry of living particles can be traced through them. Only the most
+ * recent `capacity` are kept; older lines of descent end where they were forgotten.
+ */
+export class AncestorArchive {
+  public readonly capacity: number;
+
+  // Insertion order is departure order, so the first entry is the oldest
+  private records = new Map<ParticleId, ParticleProvenance>();
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  public clear(): void {
+    this.records.clear();
+  }
+
+  public add(record: ParticleProvenance): void {
+    this.records.set(record.id, record);
+    if (this.records.size > this.capacity) {
+      this.records.delete(this.records.keys().next().value!);
+    }
+  }
+
+  public get(id: ParticleId): ParticleProvenance | undefined {
+    return this.records.get(id);
+  }
+
+  public exportState(): ParticleProvenance[] {
+    return Array.from(this.records.values(), copyProvenance);
+  }
+
+  public loadState(records: ParticleProvenance[]): void {
+    this.records.clear();
+    for (const record of records) this.add(copyProvenance(record));
+  }
+}
+
+function copyProvenance(record: ParticleProvenance): ParticleProvenance {
+  return { ...record, origin: record.origin && { ...record.origin, reactantIds: [...record.origin.reactantIds] } };
+}
+
+/** Origin as version 1 snapshots stored it, before reactions had any number of reactants */
+export interface LegacyOrigin {
+  reactionId: string;
+  catalystId: ParticleId;
+  reactantId: ParticleId;
+}
+
+/** Converts a legacy single-reactant origin to the current form */
+export function upgradeOrigin(origin: LegacyOrigin): ParticleOrigin {
+  return { reactionId: origin.reactionId, catalystId: origin.catalystId, reactantIds: [origin.reactantId] };
+}
+
+/**
+ * Walks the ancestry of `id` breadth-first, catalyst before reactants, resolving
+ * particles through `lookup`. Stops after `limit` records.
+ */
+export function traceAncestry(
+  id: ParticleId,
+  lookup: (id: ParticleId) => ParticleProvenance | undefined,
+  limit: number,
+): Ancestry {
+  const records: ParticleProvenance[] = [];
+  const queue = [id];
+  const seen = new Set(queue);
+  let complete = true;
+  for (let head = 0; head < queue.length; head++) {
+    if (records.length >= limit) {
+      complete = false;
+      break;
+    }
+    const record = lookup(queue[head]);
+    if (!record) {
+      complete = false;
+      continue;
+    }
+    records.push(record);
+    if (!record.origin) continue;
+    // Replicators share ancestors along many paths; each is listed once
+    const { catalystId, reactantIds } = record.origin;
+    for (const parent of catalystId === null ? reactantIds : [catalystId, ...reactantIds]) {
+      if (seen.has(parent)) continue;
+      seen.add(parent);
+      queue.push(parent);
+    }
+  }
+  return { id, records, complete };
+}
@@ -0,0 +1,94 @@
+/**
+ * Detection of reflexively autocatalytic, food-generated sets (RAFs),
+ * following Hordijk & Steel.
+ *
+ * A set of reactions R is a RAF relative to a food set F when
+ * - every reactant of every reaction in R can be built from F using R (F-generated), and
+ * - every reaction in R is catalyzed by at least one molecule from F or produced by R
+ *   (reflexively autocatalytic).
+ *
+ * The maximal RAF is unique and found by repeatedly discarding reactions that
+ * are not supported by the closure of the food set. Irreducible RAFs (no reaction
+ * can be removed without losing the RAF property) are found by greedy pruning.
+ */
+
+/**
+ * Reaction as seen by the RAF algorithm: only which species take part matters.
+ */
+export interface RafReaction<S> {
+  id: string;
+  reactants: S[];
+  products: S[];
+  catalysts: S[];
+}
+
+// Upper bound on the irreducible RAFs reported, to keep the analysis cheap
+const MAX_IRREDUCIBLE_RAFS = 8;
+
+/**
+ * Every species reachable from the food set using the given reactions.
+ */
+export function foodClosure<S>(food: Iterable<S>, reactions: RafReaction<S>[]): Set<S> {
+  const closure = new Set(food);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const r of reactions) {
+      if (!r.reactants.every(s => closure.has(s))) continue;
+      for (const p of r.products) {
+        if (!closure.has(p)) {
+          closure.add(p);
+          changed = true;
+        }
+      }
+    }
+  }
+  return closure;
+}
+
+/**
+ * The maximal RAF contained in `reactions`, or an empty list if there is none.
+ */
+export function findMaxRaf<S>(reactions: RafReaction<S>[], food: Iterable<S>): RafReaction<S>[] {
+  const foodSet = new Set(food);
+  let current = reactions;
+  for (;;) {
+    const closure = foodClosure(foodSet, current);
+    const next = current.filter(r =>
+      r.reactants.every(s => closure.has(s)) && r.catalysts.some(c => closure.has(c))
+    );
+    if (next.length === current.length) return current;
+    current = next;
+  }
+}
+
+/**
+ * Shrinks a RAF to an irreducible one by trying to drop reactions in order.
+ * Reactions listed in `keep` are tried last, so the result tends to contain them.
+ */
+function pruneToIrreducible<S>(raf: RafReaction<S>[], food: Set<S>, keep: Set<string>): RafReaction<S>[] {
+  const order = [...raf.filter(r => !keep.has(r.id)), ...raf.filter(r => keep.has(r.id))];
+  let current = raf;
+  for (const candidate of order) {
+    if (!current.includes(candidate)) continue;
+    const reduced = findMaxRaf(current.filter(r => r !== candidate), food);
+    if (reduced.length > 0) current = reduced;
+  }
+  return current;
+}
+
+/**
+ * A sample of distinct irreducible RAFs inside the maximal RAF, one attempt
+ * per reaction so that different sub-networks get a chance to show up.
+ */
+export function findIrreducibleRafs<S>(maxRaf: RafReaction<S>[], food: Iterable<S>): RafReaction<S>[][] {
+  const foodSet = new Set(food);
+  const found = new Map<string, RafReaction<S>[]>();
+  for (const r of maxRaf) {
+    if (found.size >= MAX_IRREDUCIBLE_RAFS) break;
+    const irraf = pruneToIrreducible(maxRaf, foodSet, new Set([r.id]));
+    const key = irraf.map(x => x.id).sort().join('|');
+    if (!found.has(key)) found.set(key, irraf);
+  }
+  return Array.from(found.values());
+}
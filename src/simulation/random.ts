@@ -0,0 +1,45 @@
+/**
+ * Seeded pseudo-random number generation for the simulation.
+ *
+ * Every stochastic decision in the simulation draws from a single RandomSource,
+ * so the same seed and parameters always reproduce the same trajectory.
+ */
+
+/**
+ * A source of uniformly distributed numbers in [0, 1), callable like Math.random.
+ * Its internal state can be captured and restored so snapshots resume exactly.
+ */
+export interface RandomSource {
+  (): number;
+  getState(): number;
+  setState(state: number): void;
+}
+
+/**
+ * Builds a RandomSource from an integer seed
+ */
+export type RandomFactory = (seed: number) => RandomSource;
+
+/**
+ * Mulberry32: a small, fast 32-bit generator with good statistical quality
+ * for simulation purposes. Not suitable for cryptography.
+ */
+export const createSeededRandom: RandomFactory = (seed) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Object.assign(next, {
+    getState: () => state,
+    setState: (s: number) => { state = s >>> 0; },
+  });
+};
+
+/** Draws a fresh seed suitable for SimulationParams.seed */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
@@ -0,0 +1,282 @@
+import type { Reaction, Species } from './types';
+import { ParticleType } from './types';
+import type { RandomSource } from './random';
+import { speciesName } from './species';
+
+/**
+ * Reaction catalog helpers shared by the simulation and the catalog editor.
+ */
+
+/**
+ * Current version of the catalog file format used for import/export.
+ * Version 1 files hold legacy two-reactant reactions.
+ */
+export const REACTION_CATALOG_VERSION = 2;
+
+/**
+ * Serializable reaction catalog, as imported and exported from the panel.
+ */
+export interface ReactionCatalogFile {
+  version: typeof REACTION_CATALOG_VERSION;
+  reactions: Reaction[];
+}
+
+/** Most particles, reactants and catalyst together, that one reaction brings together */
+export const MAX_PARTICIPANTS = 3;
+
+/** Most products one reaction creates */
+export const MAX_PRODUCTS = 4;
+
+/** Energy of reactions that specify none: one standard energy particle in, nothing out */
+export const DEFAULT_REACTION_ENERGY = { energyRequired: 1, energyReleased: 0 };
+
+/**
+ * Reaction as catalogs and snapshots stored it before general stoichiometry:
+ * two reactants, one of which catalyzes and survives, and two products.
+ */
+export interface LegacyReaction {
+  id?: string;
+  reactant1: ParticleType;
+  reactant2: ParticleType;
+  catalyst: ParticleType;
+  product1: ParticleType;
+  product2: ParticleType;
+  efficiency: number;
+}
+
+/** Reaction as stored in a catalog file or snapshot, in either schema, possibly without an id or energies */
+export type StoredReaction =
+  | (Omit<Reaction, 'id' | 'energyRequired' | 'energyReleased'> & Partial<Pick<Reaction, 'id' | 'energyRequired' | 'energyReleased'>>)
+  | LegacyReaction;
+
+/**
+ * Converts a stored reaction to the current schema, filling in default energies.
+ * A legacy catalyst stays the catalyst and the other reactant is consumed.
+ */
+export function upgradeReaction(r: StoredReaction): Omit<Reaction, 'id'> & { id?: string } {
+  if (!('reactant1' in r)) return { ...DEFAULT_REACTION_ENERGY, ...r };
+  const consumed = r.catalyst === r.reactant1 ? r.reactant2 : r.reactant1;
+  return {
+    id: r.id,
+    reactants: [consumed],
+    catalyst: r.catalyst,
+    products: [r.product1, r.product2],
+    efficiency: r.efficiency,
+    ...DEFAULT_REACTION_ENERGY,
+  };
+}
+
+/** Copies a reaction, including its lists of reactants and products */
+export function copyReaction(r: Reaction): Reaction {
+  return { ...r, reactants: [...r.reactants], products: [...r.products] };
+}
+
+/** Every particle type a reaction needs present: its reactants, then its catalyst */
+export function reactionParticipants(r: Reaction): ParticleType[] {
+  return r.catalyst === null ? r.reactants : [...r.reactants, r.catalyst];
+}
+
+/** Every particle type a reaction mentions */
+export function reactionTypes(r: Reaction): ParticleType[] {
+  return [...reactionParticipants(r), ...r.products];
+}
+
+// Efficiency bounds for reactions created by discovery mode
+const DISCOVERED_MIN_EFFICIENCY = 0.05;
+const DISCOVERED_MAX_EFFICIENCY = 0.5;
+
+/**
+ * Smallest unused id of the form `<prefix><n>`, e.g. "r12".
+ */
+export function nextReactionId(reactions: { id?: string }[], prefix: string = 'r'): string {
+  const used = new Set(reactions.map(r => r.id));
+  let n = 1;
+  while (used.has(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+}
+
+/**
+ * Fills in missing or duplicate ids, e.g. for catalogs and snapshots
+ * written before reactions had an identity.
+ */
+export function ensureReactionIds(reactions: (Omit<Reaction, 'id'> & { id?: string })[]): Reaction[] {
+  const result: Reaction[] = [];
+  for (const r of reactions) {
+    const id = r.id && !result.some(x => x.id === r.id) ? r.id : nextReactionId([...reactions, ...result]);
+    result.push({ ...r, id });
+  }
+  return result;
+}
+
+/** One-line human-readable form of a reaction, naming types after the species registry */
+export function formatReaction(r: Reaction, species: Species[]): string {
+  const side = (types: ParticleType[]) => (types.length > 0 ? types.map(type => speciesName(species, type)).join(' + ') : '∅');
+  const catalyst = r.catalyst === null ? '' : `cat. ${speciesName(species, r.catalyst)}, `;
+  return `${side(r.reactants)} → ${side(r.products)} (${catalyst}${(r.efficiency * 100).toFixed(0)}%)`;
+}
+
+/** Generates a consistent key for a set of participant types, in any order. */
+export function getReactionKey(...types: ParticleType[]): string {
+  // Sort to ensure A+B is the same as B+A
+  return [...types].sort((a, b) => a - b).join('-');
+}
+
+/**
+ * Builds the fixed set of reactions with hand-picked efficiencies.
+ * Design goals:
+ * - Ensure each base substrate has at least one autocatalytic route
+ * - Provide two routes that produce binders from cross-pairs
+ * - Make binders catalyze replication to favor compartment growth
+ *
+ * Every entry pairs two particles, one of which catalyzes and survives while
+ * the other is consumed. A later entry for the same pair replaces an earlier one.
+ */
+export function createDefaultReactions(): Reaction[] {
+  const catalog = new Map<string, Omit<Reaction, 'id'>>()
+  const add = (a: ParticleType, b: ParticleType, catalyst: ParticleType, product1: ParticleType, product2: ParticleType, efficiency: number) => {
+    const key = getReactionKey(a, b)
+    catalog.set(key, {
+      reactants: [catalyst === a ? b : a],
+      catalyst: catalyst,
+      products: [product1, product2],
+      efficiency: efficiency,
+      ...DEFAULT_REACTION_ENERGY
+    })
+  }
+
+  // D-centered pathways and membrane-gated replication with reduced B dominance
+  // Base detours and gentle loops: avoid direct D self-maintenance, bias toward C/D via non-D catalysts
+  add(ParticleType.A, ParticleType.B, ParticleType.A, ParticleType.Binder, ParticleType.B, 0.18) // Shift A+B to Binder+B, weaker A presence
+  add(ParticleType.B, ParticleType.C, ParticleType.B, ParticleType.B, ParticleType.D, 0.16) // Slightly easier D via B+C
+  // Removed explicit C+D -> 2C to curb C runaway (C+D handled by Attractor route below)
+  // Removed D+A -> D+A to prevent D persistence via D involvement
+  // Note: A+C reserved for binder production below (no duplicate per pair)
+
+  // Cross-pair binder production pathways that favor mixes including C or D (membrane seeding)
+  add(ParticleType.A, ParticleType.C, ParticleType.C, ParticleType.Binder, ParticleType.C, 0.32)
+  add(ParticleType.B, ParticleType.D, ParticleType.D, ParticleType.Binder, ParticleType.D, 0.24)
+
+  // Near D, encourage binder rather than D amplification
+  add(ParticleType.D, ParticleType.A, ParticleType.A, ParticleType.Binder, ParticleType.C, 0.10)
+
+  // Make C easier to come by through more complex catalysts involving E
+  add(ParticleType.A, ParticleType.E, ParticleType.E, ParticleType.C, ParticleType.Binder, 0.20) // Convert A into C+Binder
+  add(ParticleType.B, ParticleType.E, ParticleType.E, ParticleType.C, ParticleType.B, 0.20) // E helps convert B into C
+  add(ParticleType.D, ParticleType.E, ParticleType.E, ParticleType.C, ParticleType.E, 0.12) // rare D+E -> C
+
+  // Make B easier to obtain without enabling runaway dominance
+  add(ParticleType.A, ParticleType.A, ParticleType.A, ParticleType.B, ParticleType.A, 0.18) // simple detour to B
+
+  // Advanced attractor production (rarer, helps draw energy)
+  add(ParticleType.C, ParticleType.D, ParticleType.C, ParticleType.Attractor, ParticleType.C, 0.14) // no D as catalyst here
+  add(ParticleType.D, ParticleType.Binder, ParticleType.D, ParticleType.Attractor, ParticleType.D, 0.16) // allowed: uses D but does NOT create D
+  add(ParticleType.C, ParticleType.Attractor, ParticleType.Attractor, ParticleType.D, ParticleType.C, 0.10) // attractor-assisted D formation
+  add(ParticleType.A, ParticleType.Attractor, ParticleType.Attractor, ParticleType.D, ParticleType.A, 0.08) // another advanced D path
+  // Complex E-production routes using Attractor contexts
+  add(ParticleType.B, ParticleType.Attractor, ParticleType.Attractor, ParticleType.E, ParticleType.B, 0.12)
+  add(ParticleType.Binder, ParticleType.Attractor, ParticleType.Attractor, ParticleType.E, ParticleType.Binder, 0.14)
+  // E-mediated Attractor production made stronger to reward complex metabolisms
+  add(ParticleType.A, ParticleType.E, ParticleType.E, ParticleType.Attractor, ParticleType.A, 0.18)
+  add(ParticleType.B, ParticleType.E, ParticleType.E, ParticleType.Attractor, ParticleType.B, 0.18)
+  add(ParticleType.C, ParticleType.E, ParticleType.E, ParticleType.Attractor, ParticleType.C, 0.20)
+  add(ParticleType.Binder, ParticleType.E, ParticleType.E, ParticleType.Attractor, ParticleType.Binder, 0.24)
+
+  // Binder-catalyzed replication emphasizes A/C over B; D is NOT autocatalytic via binder
+  add(ParticleType.A, ParticleType.Binder, ParticleType.Binder, ParticleType.A, ParticleType.A, 0.48)
+  add(ParticleType.B, ParticleType.Binder, ParticleType.Binder, ParticleType.B, ParticleType.B, 0.48) // modest boost for B utility
+  // Convert some C near membranes into B rather than 2C to disadvantage C and feed B
+  add(ParticleType.C, ParticleType.Binder, ParticleType.Binder, ParticleType.B, ParticleType.Binder, 0.22)
+  // Removed D+Binder -> D+D to ensure D cannot self-amplify; D growth must come from non-D routes
+
+  // Self-limiting B to prevent monocultures (excess B recycles into A and Binder)
+  add(ParticleType.B, ParticleType.B, ParticleType.B, ParticleType.A, ParticleType.Binder, 0.40)
+
+  // Additional complex D routes that avoid D autocatalysis
+  add(ParticleType.B, ParticleType.Binder, ParticleType.Binder, ParticleType.D, ParticleType.B, 0.08) // binder-assisted D from B pools
+
+  // Number the surviving entries in catalog order: r1, r2, ...
+  return Array.from(catalog.values(), (r, i) => ({ id: `r${i + 1}`, ...r }))
+}
+
+/**
+ * Invents a reaction for an encountered pair: a random one of the two catalyzes
+ * and the other is consumed into two random products among the `speciesCount`
+ * species, at a random efficiency. Used by discovery mode.
+ */
+export function createRandomReaction(
+  id: string,
+  type1: ParticleType,
+  type2: ParticleType,
+  speciesCount: number,
+  random: RandomSource,
+): Reaction {
+  const pick = () => Math.floor(random() * speciesCount);
+  const catalyst = random() < 0.5 ? type1 : type2;
+  return {
+    id,
+    reactants: [catalyst === type1 ? type2 : type1],
+    catalyst,
+    products: [pick(), pick()],
+    efficiency: DISCOVERED_MIN_EFFICIENCY + random() * (DISCOVERED_MAX_EFFICIENCY - DISCOVERED_MIN_EFFICIENCY),
+    ...DEFAULT_REACTION_ENERGY,
+  };
+}
+
+/**
+ * Checks a reaction against the catalog schema, for a registry of `speciesCount` species.
+ * Returns a human-readable problem, or null when the reaction is valid.
+ */
+export function validateReaction(reaction: Reaction, speciesCount: number): string | null {
+  if (typeof reaction.id !== 'string' || reaction.id === '') return 'id must be a non-empty string';
+  const registered = (type: unknown) => Number.isInteger(type) && (type as number) >= 0 && (type as number) < speciesCount;
+  if (!Array.isArray(reaction.reactants) || reaction.reactants.length === 0) return 'reactants must list at least one species';
+  if (!reaction.reactants.every(registered)) return 'reactants must be registered species';
+  if (reaction.catalyst !== null && !registered(reaction.catalyst)) return 'catalyst must be a registered species or null';
+  if (reactionParticipants(reaction).length > MAX_PARTICIPANTS) {
+    return `reactants and catalyst must be at most ${MAX_PARTICIPANTS} particles`;
+  }
+  if (!Array.isArray(reaction.products) || reaction.products.length > MAX_PRODUCTS) return `products must list at most ${MAX_PRODUCTS} species`;
+  if (!reaction.products.every(registered)) return 'products must be registered species';
+  if (!(reaction.efficiency >= 0 && reaction.efficiency <= 1)) return 'efficiency must be between 0 and 1';
+  if (!(reaction.energyRequired >= 0 && Number.isFinite(reaction.energyRequired))) return 'energyRequired must be a non-negative number';
+  if (!(reaction.energyReleased >= 0 && Number.isFinite(reaction.energyReleased))) return 'energyReleased must be a non-negative number';
+  return null;
+}
+
+/**
+ * Validates every reaction of a catalog and checks that ids are unique.
+ * Returns a human-readable problem, or null when the catalog is valid.
+ */
+export function validateReactionCatalog(reactions: Reaction[], speciesCount: number): string | null {
+  const ids = new Set<string>();
+  for (let i = 0; i < reactions.length; i++) {
+    const problem = validateReaction(reactions[i], speciesCount);
+    if (problem) return `Reaction ${i + 1}: ${problem}`;
+    if (ids.has(reactions[i].id)) return `Reaction ${i + 1}: duplicate id "${reactions[i].id}"`;
+    ids.add(reactions[i].id);
+  }
+  return null;
+}
+
+/**
+ * Parses an imported catalog file. Accepts the versioned wrapper or a bare array,
+ * in the current or the legacy two-reactant schema.
+ * Throws with a descriptive message on the first invalid entry.
+ */
+export function parseReactionCatalog(json: string, speciesCount: number): Reaction[] {
+  const data = JSON.parse(json) as { version: number; reactions: StoredReaction[] } | StoredReaction[];
+  let reactions: StoredReaction[];
+  if (Array.isArray(data)) {
+    reactions = data;
+  } else {
+    if (data.version !== REACTION_CATALOG_VERSION && data.version !== 1) {
+      throw new Error(`Unsupported catalog version ${data.version}, expected ${REACTION_CATALOG_VERSION}`);
+    }
+    reactions = data.reactions;
+  }
+  if (!Array.isArray(reactions)) throw new Error('Catalog must contain a list of reactions');
+  const withIds = ensureReactionIds(reactions.map(r => upgradeReaction(r)));
+  const problem = validateReactionCatalog(withIds, speciesCount);
+  if (problem) throw new Error(problem);
+  return withIds;
+}
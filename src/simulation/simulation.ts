@@ -1,6 +1,31 @@
-import type { SimulationParams, SimulationState, ParticleId, Reaction } from './types';
-import { ParticleType } from './types';
-import { SubstrateParticle, EnergyParticle } from './particles';
+import type { SimulationParams, SimulationState, SimulationSnapshot, StateExportOptions, ParticleInfo, ParticleId, Reaction, DiscoveredReaction, AutocatalysisReport, RafSet, Genealogy, Ancestry, ParticleProvenance, ParticleOrigin, Protocell, SpeciesGenerations, Species, EnergyMotion } from './types';
+import { ParticleType, SNAPSHOT_VERSION } from './types';
+import { SubstrateStore, EnergyStore } from './particles';
+import type { RandomFactory, RandomSource } from './random';
+import { createSeededRandom } from './random';
+import type { LegacyReaction } from './reactions';
+import { copyReaction, createDefaultReactions, createRandomReaction, ensureReactionIds, getReactionKey, nextReactionId, reactionParticipants, reactionTypes, upgradeReaction, validateReactionCatalog } from './reactions';
+import { ReactionFluxTracker } from './flux';
+import { SpatialGrid } from './spatialGrid';
+import { ObstacleField } from './obstacles';
+import { applyBoundaries } from './boundaries';
+import { defaultEnergySource, defaultParams } from './defaults';
+import { FlowSampler } from './flow';
+import { ProtocellDetector } from './protocells';
+import { LineageTracker } from './lineage';
+import { AncestorArchive, traceAncestry, upgradeOrigin } from './provenance';
+import type { LegacyOrigin } from './provenance';
+import type { LegacyCounts } from './species';
+import { completeSpecies, speciesFromLegacyCounts, validateSpecies } from './species';
+import { EnergyInflow, STILL_MOTION, sampleSourcePoint, sourceMotion } from './energySources';
+import type { RafReaction } from './raf';
+import { findIrreducibleRafs, findMaxRaf } from './raf';
+
+/** A catalog reaction that could fire among the substrate particles in `slots` */
+interface ReactionCandidate {
+  reaction: Reaction;
+  slots: number[];
+}
 
 
 /**
@@ -9,7 +34,8 @@ import { SubstrateParticle, EnergyParticle } from './particles';
  * This simulation models the emergence of self-sustaining chemical reaction networks.
  * - A variety of substrate particles (A, B, C, D, E) exist.
  * - An energy gradient flows from left to right.
- * - When particles and energy collide, new chemical reactions can be "discovered".
+ * - Reactions come from an editable catalog; in discovery mode, energized encounters
+ *   between uncatalogued pairs can "discover" new reactions.
  * - Discovered reactions are added to a global "reaction catalog".
  * - Sets of reactions that can sustain each other (autocatalytic sets) can emerge,
  *   compete for resources, and spread, demonstrating open-ended evolution.
@@ -20,26 +46,124 @@ export class Simulation {
   private Ly: number = 600;
 
   // Simplified physics constants not exposed
-  private readonly energyInflowPerTick = 2;
-  private readonly energyFlowVelocity = 60;
-  private readonly energyTurbulence = 0.4;
-
-  // A single map to hold all substrate particles, distinguished by their internal 'type'
-  private particles = new Map<ParticleId, SubstrateParticle>();
-  private energyParticles = new Map<ParticleId, EnergyParticle>();
+  private readonly fluxWindowFrames = 300;
+  private readonly attractorLinearScanLimit = 64;
+  private readonly initialPlacementAttempts = 20;
+  // Binder clusters are matched against the previous analysis every N frames;
+  // smaller clusters are too transient to follow
+  private readonly lineageIntervalFrames = 10;
+  private readonly lineageMinClusterSize = 4;
+  // Departed ancestors remembered for ancestry queries, and the most records one query returns
+  private readonly ancestorCapacity = 10000;
+  private readonly ancestryQueryLimit = 200;
+
+  // Typed-array storage for all substrate particles, distinguished by their 'type' column
+  private particles = new SubstrateStore();
+  private energyParticles = new EnergyStore();
+
+  // Scratch buffers and spatial indices reused across steps; they only ever grow
+  private substrateSlots = new Int32Array(0);
+  private energySlots = new Int32Array(0);
+  private attractorSlots = new Int32Array(0);
+  private stepX = new Float64Array(0);
+  private stepY = new Float64Array(0);
+  private prevX = new Float64Array(0);
+  private prevY = new Float64Array(0);
+  private grid = new SpatialGrid();
+  private attractorGrid = new SpatialGrid();
+  private energyGrid = new SpatialGrid();
+
+  // Static geometry compiled from params.obstacles
+  private obstacles: ObstacleField;
+  // Per-source inflow state for params.energySources
+  private inflow = new EnergyInflow();
+  // Background flow from params.flow, seeded like the run
+  private flow: FlowSampler;
+  private protocellDetector = new ProtocellDetector();
+  // Protocells are detected as often as lineages are tracked, and exported states
+  // in between reuse the last result; null when the world changed since
+  private protocells: Protocell[] | null = null;
+  private protocellsFrame = 0;
+  private lineage = new LineageTracker();
+
+  // Behavior flags and physical properties of the species registry, indexed by type code
+  private sticky = new Uint8Array(256);
+  private attractsEnergy = new Uint8Array(256);
+  private radiusScale = new Float64Array(256);
+  private mass = new Float64Array(256);
+  private diffusion = new Float64Array(256);
+  private drift = new Float64Array(256);
+  private largestRadiusScale = 1;
+  private ancestors = new AncestorArchive(this.ancestorCapacity);
 
   // The catalog of all "discovered" chemical reactions
-  private reactionCatalog = new Map<string, Reaction>();
+  private reactionCatalog: Reaction[] = [];
+  // Catalog reactions by the key of their participants; reactions sharing a key compete
+  private reactionsByKey = new Map<string, Reaction[]>();
+  // Participant pair key -> types that complete a three-particle reaction with the pair
+  private thirdBodies = new Map<string, ParticleType[]>();
+  // Reactions the catalog is rebuilt from on every initialize(); editable from the UI
+  private catalogTemplate: Reaction[] = createDefaultReactions();
+  // Reactions discovered during this run, and those not yet reported to the UI
+  private discoveries: DiscoveredReaction[] = [];
+  private pendingDiscoveries: DiscoveredReaction[] = [];
+  // Per-reaction firing statistics and counters for encounters that did not react
+  private flux = new ReactionFluxTracker(this.fluxWindowFrames);
+  private failedEfficiencyRolls: number = 0;
+  private uncatalogedEncounters: number = 0;
+  private energyStarvedEncounters: number = 0;
+  // Energy accounting since the last reset, see SimulationStats
+  private energyInjected: number = 0;
+  private energySpent: number = 0;
+  private energyReleased: number = 0;
 
   // Simulation state
   private frameCount: number = 0;
   private nextId: ParticleId = 0;
   private totalReactions: number = 0;
 
-  constructor(params: SimulationParams) {
+  // Single source of randomness, re-seeded from params.seed on every initialize()
+  private readonly createRandom: RandomFactory;
+  private random: RandomSource;
+
+  constructor(params: SimulationParams, createRandom: RandomFactory = createSeededRandom) {
     this.params = params;
     this.Lx = params.Lx;
     this.Ly = params.Ly;
+    this.createRandom = createRandom;
+    this.random = createRandom(params.seed);
+    this.obstacles = new ObstacleField(params.obstacles ?? []);
+    this.flow = new FlowSampler(params.flow, params.seed);
+    this.applySpecies();
+  }
+
+  /** Rebuilds the behavior flags and physical properties from the species registry */
+  private applySpecies(): void {
+    this.sticky.fill(0);
+    this.attractsEnergy.fill(0);
+    this.radiusScale.fill(1);
+    this.mass.fill(1);
+    this.diffusion.fill(0);
+    this.drift.fill(0);
+    this.params.species.forEach((species, type) => {
+      this.sticky[type] = species.sticky ? 1 : 0;
+      this.attractsEnergy[type] = species.attractsEnergy ? 1 : 0;
+      this.radiusScale[type] = species.radius;
+      this.mass[type] = species.mass;
+      this.diffusion[type] = species.diffusion;
+      this.drift[type] = species.drift;
+    });
+    this.largestRadiusScale = Math.max(...this.params.species.map(species => species.radius));
+  }
+
+  /** Collision radius of a substrate particle of the given type */
+  private radiusOf(type: ParticleType): number {
+    return this.params.particleRadius * this.radiusScale[type];
+  }
+
+  /** Collision radius of energy particles, drawn as squares of side r */
+  private get energyRadius(): number {
+    return this.params.particleRadius / 2;
   }
 
   /**
@@ -48,326 +172,382 @@ export class Simulation {
   public initialize(): void {
     this.particles.clear();
     this.energyParticles.clear();
-    this.reactionCatalog.clear();
     this.frameCount = 0;
     this.nextId = 0;
     this.totalReactions = 0;
+    this.discoveries = [];
+    this.pendingDiscoveries = [];
+    this.flux.clear();
+    this.failedEfficiencyRolls = 0;
+    this.uncatalogedEncounters = 0;
+    this.energyStarvedEncounters = 0;
+    this.energyInjected = 0;
+    this.energySpent = 0;
+    this.energyReleased = 0;
+    this.inflow.reset();
+    this.ancestors.clear();
+    this.protocells = null;
+    this.random = this.createRandom(this.params.seed);
+    this.flow = new FlowSampler(this.params.flow, this.params.seed);
+
+    // Pre-populate the reaction catalog from the template, by default a fixed set
+    // that encourages autocatalysis, diversity, and membrane formation
+    this.loadCatalog(this.catalogTemplate)
+
+    // Create the initial particles of each species in registry order
+    this.params.species.forEach((species, type) => this.createInitialParticles(type, species.initialCount));
+
+    this.createInitialEnergy(this.params.energyParticleCount);
+
+    this.lineage.reset();
+    this.trackLineages();
+  }
 
-    // Pre-populate the reaction catalog with a fixed set that
-    // encourages autocatalysis, diversity, and membrane formation
-    this.seedFixedReactions()
-
-    // Create initial particles for each type based on params
-    this.createInitialParticles(ParticleType.A, this.params.particleCountA);
-    this.createInitialParticles(ParticleType.B, this.params.particleCountB);
-    this.createInitialParticles(ParticleType.C, this.params.particleCountC);
-    this.createInitialParticles(ParticleType.D, this.params.particleCountD);
-    this.createInitialParticles(ParticleType.E, this.params.particleCountE);
-    this.createInitialParticles(ParticleType.Binder, this.params.particleCountBinder);
-
-    // Create initial energy particles
-    for (let i = 0; i < this.params.energyParticleCount; i++) {
-      const x = Math.random() * (this.Lx * 0.1); // Start near left edge
-      const y = Math.random() * this.Ly;
-      this.energyParticles.set(this.nextId, new EnergyParticle(this.nextId, x, y));
+  /**
+   * Spreads initial energy particles over the energy sources in proportion to
+   * their rate, or still over the whole world when no source emits.
+   */
+  private createInitialEnergy(count: number): void {
+    const sources = this.params.energySources.filter(source => source.rate > 0);
+    const totalRate = sources.reduce((sum, source) => sum + source.rate, 0);
+    for (let i = 0; i < count; i++) {
+      if (sources.length === 0) {
+        const x = this.random() * this.Lx;
+        const y = this.random() * this.Ly;
+        this.addEnergyParticle(x, y, STILL_MOTION);
+      } else {
+        let pick = 0;
+        if (sources.length > 1) {
+          let u = this.random() * totalRate;
+          while (pick < sources.length - 1 && u >= sources[pick].rate) u -= sources[pick++].rate;
+        }
+        const source = sources[pick];
+        const [x, y] = sampleSourcePoint(source.shape, this.Lx, this.Ly, this.random);
+        this.addEnergyParticle(x, y, sourceMotion(source));
+      }
       this.nextId++;
     }
   }
 
   /**
-   * Seeds a fixed set of reactions with hand-picked efficiencies.
-   * Design goals:
-   * - Ensure each base substrate has at least one autocatalytic route
-   * - Provide two routes that produce binders from cross-pairs
-   * - Make binders catalyze replication to favor compartment growth
+   * Adds an energy particle with the next id at (x, y), pushed out of obstacles.
+   * In thermodynamic mode it carries a random amount of energy, otherwise one unit.
    */
-  private seedFixedReactions(): void {
-    const add = (a: ParticleType, b: ParticleType, catalyst: ParticleType, product1: ParticleType, product2: ParticleType, efficiency: number) => {
-      const key = this.getReactionKey(a, b)
-      this.reactionCatalog.set(key, {
-        reactant1: a,
-        reactant2: b,
-        catalyst: catalyst,
-        product1: product1,
-        product2: product2,
-        efficiency: efficiency
-      })
-    }
+  private addEnergyParticle(x: number, y: number, motion: EnergyMotion): void {
+    const thermo = this.params.thermodynamics;
+    const amount = thermo.enabled
+      ? thermo.packetEnergyMin + this.random() * (thermo.packetEnergyMax - thermo.packetEnergyMin)
+      : 1;
+    this.energyParticles.add(this.nextId, ...this.obstacles.pushOut(x, y, this.energyRadius), motion, amount);
+    this.energyInjected += amount;
+  }
+
+  /** Replaces the live reaction catalog */
+  private loadCatalog(reactions: Reaction[]): void {
+    this.reactionCatalog = [];
+    this.reactionsByKey.clear();
+    this.thirdBodies.clear();
+    for (const r of reactions) this.addToCatalog(copyReaction(r));
+  }
 
-    // D-centered pathways and membrane-gated replication with reduced B dominance
-    // Base detours and gentle loops: avoid direct D self-maintenance, bias toward C/D via non-D catalysts
-    add(ParticleType.A, ParticleType.B, ParticleType.A, ParticleType.Binder, ParticleType.B, 0.18) // Shift A+B to Binder+B, weaker A presence
-    add(ParticleType.B, ParticleType.C, ParticleType.B, ParticleType.B, ParticleType.D, 0.16) // Slightly easier D via B+C
-    // Removed explicit C+D -> 2C to curb C runaway (C+D handled by Attractor route below)
-    // Removed D+A -> D+A to prevent D persistence via D involvement
-    // Note: A+C reserved for binder production below (no duplicate per pair)
-
-    // Cross-pair binder production pathways that favor mixes including C or D (membrane seeding)
-    add(ParticleType.A, ParticleType.C, ParticleType.C, ParticleType.Binder, ParticleType.C, 0.32)
-    add(ParticleType.B, ParticleType.D, ParticleType.D, ParticleType.Binder, ParticleType.D, 0.24)
-
-    // Near D, encourage binder rather than D amplification
-    add(ParticleType.D, ParticleType.A, ParticleType.A, ParticleType.Binder, ParticleType.C, 0.10)
-
-    // Make C easier to come by through more complex catalysts involving E
-    add(ParticleType.A, ParticleType.E, ParticleType.E, ParticleType.C, ParticleType.Binder, 0.20) // Convert A into C+Binder
-    add(ParticleType.B, ParticleType.E, ParticleType.E, ParticleType.C, ParticleType.B, 0.20) // E helps convert B into C
-    add(ParticleType.D, ParticleType.E, ParticleType.E, ParticleType.C, ParticleType.E, 0.12) // rare D+E -> C
-
-    // Make B easier to obtain without enabling runaway dominance
-    add(ParticleType.A, ParticleType.A, ParticleType.A, ParticleType.B, ParticleType.A, 0.18) // simple detour to B
-
-    // Advanced attractor production (rarer, helps draw energy)
-    add(ParticleType.C, ParticleType.D, ParticleType.C, ParticleType.Attractor, ParticleType.C, 0.14) // no D as catalyst here
-    add(ParticleType.D, ParticleType.Binder, ParticleType.D, ParticleType.Attractor, ParticleType.D, 0.16) // allowed: uses D but does NOT create D
-    add(ParticleType.C, ParticleType.Attractor, ParticleType.Attractor, ParticleType.D, ParticleType.C, 0.10) // attractor-assisted D formation
-    add(ParticleType.A, ParticleType.Attractor, ParticleType.Attractor, ParticleType.D, ParticleType.A, 0.08) // another advanced D path
-    // Complex E-production routes using Attractor contexts
-    add(ParticleType.B, ParticleType.Attractor, ParticleType.Attractor, ParticleType.E, ParticleType.B, 0.12)
-    add(ParticleType.Binder, ParticleType.Attractor, ParticleType.Attractor, ParticleType.E, ParticleType.Binder, 0.14)
-    // E-mediated Attractor production made stronger to reward complex metabolisms
-    add(ParticleType.A, ParticleType.E, ParticleType.E, ParticleType.Attractor, ParticleType.A, 0.18)
-    add(ParticleType.B, ParticleType.E, ParticleType.E, ParticleType.Attractor, ParticleType.B, 0.18)
-    add(ParticleType.C, ParticleType.E, ParticleType.E, ParticleType.Attractor, ParticleType.C, 0.20)
-    add(ParticleType.Binder, ParticleType.E, ParticleType.E, ParticleType.Attractor, ParticleType.Binder, 0.24)
-
-    // Binder-catalyzed replication emphasizes A/C over B; D is NOT autocatalytic via binder
-    add(ParticleType.A, ParticleType.Binder, ParticleType.Binder, ParticleType.A, ParticleType.A, 0.48)
-    add(ParticleType.B, ParticleType.Binder, ParticleType.Binder, ParticleType.B, ParticleType.B, 0.48) // modest boost for B utility
-    // Convert some C near membranes into B rather than 2C to disadvantage C and feed B
-    add(ParticleType.C, ParticleType.Binder, ParticleType.Binder, ParticleType.B, ParticleType.Binder, 0.22)
-    // Removed D+Binder -> D+D to ensure D cannot self-amplify; D growth must come from non-D routes
-
-    // Self-limiting B to prevent monocultures (excess B recycles into A and Binder)
-    add(ParticleType.B, ParticleType.B, ParticleType.B, ParticleType.A, ParticleType.Binder, 0.40)
-
-    // Additional complex D routes that avoid D autocatalysis
-    add(ParticleType.B, ParticleType.Binder, ParticleType.Binder, ParticleType.D, ParticleType.B, 0.08) // binder-assisted D from B pools
+  /** Adds a reaction to the live catalog and indexes it by its participants */
+  private addToCatalog(reaction: Reaction): void {
+    this.reactionCatalog.push(reaction);
+    const participants = reactionParticipants(reaction);
+    const key = getReactionKey(...participants);
+    const competing = this.reactionsByKey.get(key);
+    if (competing) competing.push(reaction);
+    else this.reactionsByKey.set(key, [reaction]);
+
+    // Each pair of a three-particle reaction looks out for the remaining participant
+    if (participants.length !== 3) return;
+    for (let k = 0; k < 3; k++) {
+      const pairKey = getReactionKey(...participants.filter((_, j) => j !== k));
+      const thirds = this.thirdBodies.get(pairKey);
+      if (!thirds) this.thirdBodies.set(pairKey, [participants[k]]);
+      else if (!thirds.includes(participants[k])) thirds.push(participants[k]);
+    }
   }
 
   /** Helper to create initial substrate particles */
   private createInitialParticles(type: ParticleType, count: number): void {
+    const r = this.radiusOf(type);
     for (let i = 0; i < count; i++) {
-      // Spawn only in the middle 60% of the canvas
-      const x = this.Lx * (0.2 + Math.random() * 0.6);
-      const y = this.Ly * (0.2 + Math.random() * 0.6);
+      // Spawn only in the middle 60% of the canvas, retrying spots inside obstacles
+      let x = 0;
+      let y = 0;
+      for (let attempt = 0; attempt < this.initialPlacementAttempts; attempt++) {
+        x = this.Lx * (0.2 + this.random() * 0.6);
+        y = this.Ly * (0.2 + this.random() * 0.6);
+        if (this.obstacles.isEmpty || !this.obstacles.overlaps(x, y, r)) break;
+      }
+      [x, y] = this.obstacles.pushOut(x, y, r);
       // Create with birthFrame so age is derived from global frame counter
-      this.particles.set(this.nextId, new SubstrateParticle(this.nextId, x, y, type, this.frameCount))
+      this.particles.add(this.nextId, x, y, type, this.frameCount)
       this.nextId++;
     }
   }
 
   public step(): void {
     this.frameCount++;
+    this.flux.advance(this.frameCount);
     this.updateAndMoveParticles();
     this.handleEnergyInflow();
     this.processReactionsAndDiscovery();
     this.cleanupInactiveParticles();
+    if (this.frameCount % this.lineageIntervalFrames === 0) this.trackLineages();
   }
   
+  /** Hands the current binder clusters, by particle ID, to the lineage tracker */
+  private trackLineages(): void {
+    const P = this.particles;
+    this.ensureScratchCapacity();
+    const count = P.collectActive(this.substrateSlots);
+    const clusters = this.protocellDetector.clusters(
+      this.substrateSlots, count, P.x, P.y, P.type, this.sticky, this.params.particleRadius * this.largestRadiusScale, this.lineageMinClusterSize,
+    );
+    this.lineage.update(this.frameCount, clusters.map(slots => slots.map(s => P.id[s])));
+  }
+
+  /** Current protocells, detected afresh at most every lineageIntervalFrames */
+  private detectProtocells(): Protocell[] {
+    if (this.protocells && this.frameCount - this.protocellsFrame < this.lineageIntervalFrames) return this.protocells;
+    const P = this.particles;
+    this.ensureScratchCapacity();
+    const count = P.collectActive(this.substrateSlots);
+    this.protocells = this.protocellDetector.detect(
+      this.substrateSlots, count, P.x, P.y, P.type, this.sticky, this.Lx, this.Ly, this.params.particleRadius * this.largestRadiusScale,
+    );
+    this.protocellsFrame = this.frameCount;
+    return this.protocells;
+  }
+
+  /** Genealogy of the binder clusters tracked since the last reset */
+  public getGenealogy(): Genealogy {
+    return this.lineage.genealogy();
+  }
+
+  /**
+   * Grows the per-slot scratch buffers to cover every slot in use
+   */
+  private ensureScratchCapacity(): void {
+    const substrates = this.particles.capacity
+    if (this.substrateSlots.length < substrates) {
+      this.substrateSlots = new Int32Array(substrates)
+      this.attractorSlots = new Int32Array(substrates)
+      this.stepX = new Float64Array(substrates)
+      this.stepY = new Float64Array(substrates)
+      this.prevX = new Float64Array(substrates)
+      this.prevY = new Float64Array(substrates)
+    }
+    if (this.energySlots.length < this.energyParticles.capacity) {
+      this.energySlots = new Int32Array(this.energyParticles.capacity)
+    }
+  }
+
   /**
    * Updates lifespans and applies simplified physics per tick
    */
   private updateAndMoveParticles(): void {
-    // Update substrate lifespans by passing current frame and global lifespan
-    for (const p of this.particles.values()) {
-      if (p.active) p.update(this.frameCount, this.params.particleLifespan)
-    }
+    const P = this.particles
+    const E = this.energyParticles
+    this.ensureScratchCapacity()
 
-    // Update energy particles with simple flow plus attraction toward D and Attractor
-    for (const e of this.energyParticles.values()) {
-      if (!e.active) continue
+    // Update substrate lifespans by passing current frame and global lifespan
+    P.expire(this.frameCount, this.params.particleLifespan)
 
-      // Baseline flow/turbulence
-      const vx = this.energyFlowVelocity * 1.0 / 60.0
-      const vy = (Math.random() - 0.5) * this.energyTurbulence
+    // Index attractors once so each energy particle finds its nearest one by ring search
+    const r0 = this.params.particleRadius
+    let attractorCount = 0
+    for (let s = 0; s < P.highWater; s++) {
+      if (P.active[s] && this.attractsEnergy[P.type[s]]) this.attractorSlots[attractorCount++] = s
+    }
+    this.attractorGrid.build(
+      Math.max(2 * r0, this.params.attractorForceUnitDistanceInR * r0),
+      this.attractorSlots, attractorCount, P.x, P.y,
+    )
+
+    // Update energy particles with their source's flow, the background flow and attraction toward D and Attractor
+    const energyCoupling = this.flow.isStill ? 0 : this.params.energyFlowCoupling
+    for (let e = 0; e < E.highWater; e++) {
+      if (!E.active[e]) continue
+
+      // Flow and turbulence of the source the particle came from
+      const jitter = this.random() - 0.5
+      let vx = E.vx[e] + jitter * E.jx[e]
+      let vy = E.vy[e] + jitter * E.jy[e]
+      if (energyCoupling !== 0) {
+        const [fx, fy] = this.flow.sample(E.x[e], E.y[e], this.frameCount, this.Lx, this.Ly)
+        vx += energyCoupling * fx
+        vy += energyCoupling * fy
+      }
 
       // Find nearest attractor: D or Attractor particles, pull inverse-square normalized to unit at N*r
       const r = this.params.particleRadius
       const unitDist = this.params.attractorForceUnitDistanceInR * r
       let ax = 0
       let ay = 0
-      let bestDist = Infinity
-      for (const p of this.particles.values()) {
-        if (!p.active) continue
-        if (p.type !== ParticleType.Attractor) continue
-        const dx = p.x - e.x
-        const dy = p.y - e.y
+      const nearest = this.findNearestAttractor(attractorCount, E.x[e], E.y[e])
+      if (nearest !== -1) {
+        const dx = P.x[nearest] - E.x[e]
+        const dy = P.y[nearest] - E.y[e]
         const d = Math.hypot(dx, dy)
-        if (d < bestDist && d > 1e-6) {
-          bestDist = d
-          const dClamped = Math.max(d, 2 * r)
-          const mag = Math.pow(unitDist / dClamped, 2)
-          const ux = dx / d
-          const uy = dy / d
-          ax = ux * mag
-          ay = uy * mag
-        }
+        const dClamped = Math.max(d, 2 * r)
+        const mag = Math.pow(unitDist / dClamped, 2)
+        const ux = dx / d
+        const uy = dy / d
+        ax = ux * mag
+        ay = uy * mag
       }
 
-      e.x += vx + ax
-      e.y += vy + ay
+      if (this.obstacles.isEmpty) {
+        E.x[e] += vx + ax
+        E.y[e] += vy + ay
+      } else {
+        // Obstacles block the flow; particles slide along them instead
+        [E.x[e], E.y[e]] = this.obstacles.constrainMove(E.x[e], E.y[e], E.x[e] + vx + ax, E.y[e] + vy + ay, this.energyRadius)
+      }
 
-      if (e.y < 0) e.y += this.Ly
-      if (e.y > this.Ly) e.y -= this.Ly
-      if (e.x > this.Lx) e.active = false
+      applyBoundaries(E, e, this.params.energyBoundaries, this.Lx, this.Ly)
     }
 
-    const active = Array.from(this.particles.values()).filter(p => p.active)
-    if (active.length === 0) return
+    const active = this.substrateSlots
+    const count = P.collectActive(active)
+    if (count === 0) return
+
+    const xs = P.x
+    const ys = P.y
+    const types = P.type
+    const stepX = this.stepX
+    const stepY = this.stepY
 
     const r = this.params.particleRadius
+    const { radiusScale, mass, diffusion, drift } = this
     // Distance scale for binder attraction measured in radii
     const binderRange = this.params.binderForceUnitDistanceInR * r
 
-    // Spatial hash grid for neighbor queries
-    // Use max of diameter and binder interaction range for cell size
-    const cellSize = Math.max(2 * r, binderRange)
-    const grid = new Map<string, SubstrateParticle[]>()
-    const cellKey = (x: number, y: number) => `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`
-
-    for (const p of active) {
-      const key = cellKey(p.x, p.y)
-      const arr = grid.get(key)
-      if (arr) arr.push(p)
-      else grid.set(key, [p])
-    }
-
-    const getNeighbors = (x: number, y: number, radius: number): SubstrateParticle[] => {
-      const cx = Math.floor(x / cellSize)
-      const cy = Math.floor(y / cellSize)
-      const res: SubstrateParticle[] = []
-      const span = 1
-      for (let ix = cx - span; ix <= cx + span; ix++) {
-        for (let iy = cy - span; iy <= cy + span; iy++) {
-          const arr = grid.get(`${ix}:${iy}`)
-          if (!arr) continue
-          for (const p of arr) {
-            const dx = p.x - x
-            const dy = p.y - y
-            if (Math.hypot(dx, dy) <= radius + 1e-6) res.push(p)
-          }
-        }
-      }
-      return res
-    }
-
-    // Step vectors per particle id
-    const stepX = new Map<ParticleId, number>()
-    const stepY = new Map<ParticleId, number>()
-
-    // 1) Base random step X with rightward current bias for non-binders only
-    for (const p of active) {
-      const angle = Math.random() * Math.PI * 2
-      const baseX = Math.cos(angle) * this.params.randomStepMagnitudeX
-      const baseY = Math.sin(angle) * this.params.randomStepMagnitudeX
-      if (p.type !== ParticleType.Binder) {
-        stepX.set(p.id, baseX + this.params.current)
-        stepY.set(p.id, baseY)
+    // Spatial grid for neighbor queries
+    // Use max of the largest diameter and binder interaction range for cell size
+    const cellSize = Math.max(2 * r * this.largestRadiusScale, binderRange)
+    const grid = this.grid
+    grid.build(cellSize, active, count, xs, ys)
+
+    // 1) Base random step X scaled by the species' diffusion, carried along by its share of the flow field
+    for (let k = 0; k < count; k++) {
+      const p = active[k]
+      const type = types[p]
+      const angle = this.random() * Math.PI * 2
+      const baseX = Math.cos(angle) * this.params.randomStepMagnitudeX * diffusion[type]
+      const baseY = Math.sin(angle) * this.params.randomStepMagnitudeX * diffusion[type]
+      if (drift[type] > 0) {
+        const [fx, fy] = this.flow.sample(xs[p], ys[p], this.frameCount, this.Lx, this.Ly)
+        stepX[p] = baseX + drift[type] * fx
+        stepY[p] = baseY + drift[type] * fy
       } else {
-        stepX.set(p.id, baseX)
-        stepY.set(p.id, baseY)
+        stepX[p] = baseX
+        stepY[p] = baseY
       }
     }
 
-    // 2) Binder attraction inverse-square, normalized to X at N radii
-    for (const p of active) {
-      // Query neighbors within binder interaction range only
-      const neighbors = getNeighbors(p.x, p.y, binderRange)
+    // 2) Binder attraction inverse-square, normalized to X at N radii and divided by the mass pulled
+    for (let k = 0; k < count; k++) {
+      const p = active[k]
+      const px = xs[p]
+      const py = ys[p]
+      const rp = r * radiusScale[types[p]]
       // Quorum attenuation removed: binder attraction is unattenuated by local density
       const attenuation = 1
-      for (const q of neighbors) {
-        if (p.id === q.id) continue
-        if (q.type !== ParticleType.Binder) continue
-        const dx = q.x - p.x
-        const dy = q.y - p.y
+      // Visit neighbors within binder interaction range only
+      grid.forEachNear(px, py, 1, (q) => {
+        const dx = xs[q] - px
+        const dy = ys[q] - py
         const dist = Math.hypot(dx, dy)
-        if (dist < 1e-6) continue
-        const dClamped = Math.max(dist, 2 * r)
+        if (dist > binderRange + 1e-6) return
+        if (p === q) return
+        if (!this.sticky[types[q]]) return
+        if (dist < 1e-6) return
+        const dClamped = Math.max(dist, rp + r * radiusScale[types[q]])
         const unitX = dx / dist
         const unitY = dy / dist
-        const mag = attenuation * this.params.randomStepMagnitudeX * Math.pow(binderRange / dClamped, 2)
-        stepX.set(p.id, (stepX.get(p.id) || 0) + unitX * mag)
-        stepY.set(p.id, (stepY.get(p.id) || 0) + unitY * mag)
-      }
+        const mag = attenuation * this.params.randomStepMagnitudeX * Math.pow(binderRange / dClamped, 2) / mass[types[p]]
+        stepX[p] += unitX * mag
+        stepY[p] += unitY * mag
+      })
     }
 
-    // 3) Apply steps tentatively
-    for (const p of active) {
-      p.x += stepX.get(p.id) || 0
-      p.y += stepY.get(p.id) || 0
+    // 3) Apply steps tentatively, remembering where particles started for obstacle collisions
+    const hasObstacles = !this.obstacles.isEmpty
+    if (hasObstacles) {
+      for (let k = 0; k < count; k++) {
+        const p = active[k]
+        this.prevX[p] = xs[p]
+        this.prevY[p] = ys[p]
+      }
+    }
+    for (let k = 0; k < count; k++) {
+      const p = active[k]
+      xs[p] += stepX[p]
+      ys[p] += stepY[p]
     }
 
     // 4) Resolve collisions using nearest neighbors
-    grid.clear()
-    for (const p of active) {
-      const key = cellKey(p.x, p.y)
-      const arr = grid.get(key)
-      if (arr) arr.push(p)
-      else grid.set(key, [p])
-    }
-
-    const neighborsForCollision = (p: SubstrateParticle): SubstrateParticle[] => {
-      const cx = Math.floor(p.x / cellSize)
-      const cy = Math.floor(p.y / cellSize)
-      const res: SubstrateParticle[] = []
-      for (let ix = cx - 1; ix <= cx + 1; ix++) {
-        for (let iy = cy - 1; iy <= cy + 1; iy++) {
-          const arr = grid.get(`${ix}:${iy}`)
-          if (!arr) continue
-          for (const q of arr) res.push(q)
-        }
-      }
-      return res
-    }
+    grid.build(cellSize, active, count, xs, ys)
 
     const lossFactor = Math.sqrt(Math.max(0, 1 - this.params.collisionEnergyLossPct / 100))
 
-    for (const p of active) {
-      const neigh = neighborsForCollision(p)
-      for (const q of neigh) {
-        if (q.id <= p.id) continue
-        const dx = q.x - p.x
-        const dy = q.y - p.y
+    for (let k = 0; k < count; k++) {
+      const p = active[k]
+      grid.forEachNear(xs[p], ys[p], 1, (q) => {
+        if (q <= p) return
+        const dx = xs[q] - xs[p]
+        const dy = ys[q] - ys[p]
         const dist = Math.hypot(dx, dy)
-        if (dist >= 2 * r || dist <= 1e-6) continue
+        const contact = r * radiusScale[types[p]] + r * radiusScale[types[q]]
+        if (dist >= contact || dist <= 1e-6) return
 
         const nx = dx / dist
         const ny = dy / dist
-        const overlap = 2 * r - dist
+        const overlap = contact - dist
+        // Overlap is removed in inverse proportion to mass, so the heavier particle moves less
+        const mp = mass[types[p]]
+        const mq = mass[types[q]]
+        const shareP = mq / (mp + mq)
+        const shareQ = mp / (mp + mq)
 
         // Binder collision rule
-        if (p.type === ParticleType.Binder || q.type === ParticleType.Binder) {
-          if (p.type === ParticleType.Binder && q.type !== ParticleType.Binder) {
+        const pBinder = this.sticky[types[p]] === 1
+        const qBinder = this.sticky[types[q]] === 1
+        if (pBinder || qBinder) {
+          if (pBinder && !qBinder) {
             // Place q tangent to p, dissipate q step
-            q.x = p.x + nx * 2 * r
-            q.y = p.y + ny * 2 * r
-            stepX.set(q.id, 0)
-            stepY.set(q.id, 0)
-          } else if (q.type === ParticleType.Binder && p.type !== ParticleType.Binder) {
-            p.x = q.x - nx * 2 * r
-            p.y = q.y - ny * 2 * r
-            stepX.set(p.id, 0)
-            stepY.set(p.id, 0)
+            xs[q] = xs[p] + nx * contact
+            ys[q] = ys[p] + ny * contact
+            stepX[q] = 0
+            stepY[q] = 0
+          } else if (qBinder && !pBinder) {
+            xs[p] = xs[q] - nx * contact
+            ys[p] = ys[q] - ny * contact
+            stepX[p] = 0
+            stepY[p] = 0
           } else {
-            // binder-binder: separate equally and zero both steps
-            p.x -= nx * overlap * 0.5
-            p.y -= ny * overlap * 0.5
-            q.x += nx * overlap * 0.5
-            q.y += ny * overlap * 0.5
-            stepX.set(p.id, 0)
-            stepY.set(p.id, 0)
-            stepX.set(q.id, 0)
-            stepY.set(q.id, 0)
+            // binder-binder: separate by mass and zero both steps
+            xs[p] -= nx * overlap * shareP
+            ys[p] -= ny * overlap * shareP
+            xs[q] += nx * overlap * shareQ
+            ys[q] += ny * overlap * shareQ
+            stepX[p] = 0
+            stepY[p] = 0
+            stepX[q] = 0
+            stepY[q] = 0
           }
-          continue
+          return
         }
 
         // Elastic collision with damping for two non-binders
-        const v1x = stepX.get(p.id) || 0
-        const v1y = stepY.get(p.id) || 0
-        const v2x = stepX.get(q.id) || 0
-        const v2y = stepY.get(q.id) || 0
+        const v1x = stepX[p]
+        const v1y = stepY[p]
+        const v2x = stepX[q]
+        const v2y = stepY[q]
 
         // Normal and tangent components
         const v1n = v1x * nx + v1y * ny
@@ -377,234 +557,1005 @@ export class Simulation {
         const v1t = v1x * tx + v1y * ty
         const v2t = v2x * tx + v2y * ty
 
-        // Swap normal components (equal mass), apply damping
-        const v1nPrime = v2n * lossFactor
-        const v2nPrime = v1n * lossFactor
-
-        const newV1x = v1t * tx + v1nPrime * nx
-        const newV1y = v1t * ty + v1nPrime * ny
-        const newV2x = v2t * tx + v2nPrime * nx
-        const newV2y = v2t * ty + v2nPrime * ny
+        // Exchange normal components as in a 1D elastic collision, conserving momentum
+        // (equal masses simply swap them), then apply damping
+        const v1nPrime = (((mp - mq) * v1n + 2 * mq * v2n) / (mp + mq)) * lossFactor
+        const v2nPrime = (((mq - mp) * v2n + 2 * mp * v1n) / (mp + mq)) * lossFactor
 
-        stepX.set(p.id, newV1x)
-        stepY.set(p.id, newV1y)
-        stepX.set(q.id, newV2x)
-        stepY.set(q.id, newV2y)
+        stepX[p] = v1t * tx + v1nPrime * nx
+        stepY[p] = v1t * ty + v1nPrime * ny
+        stepX[q] = v2t * tx + v2nPrime * nx
+        stepY[q] = v2t * ty + v2nPrime * ny
 
         // Positional correction to remove overlap
-        const corr = overlap * 0.5
-        p.x -= nx * corr
-        p.y -= ny * corr
-        q.x += nx * corr
-        q.y += ny * corr
+        xs[p] -= nx * overlap * shareP
+        ys[p] -= ny * overlap * shareP
+        xs[q] += nx * overlap * shareQ
+        ys[q] += ny * overlap * shareQ
+      })
+    }
+
+    // 5) Keep particles out of obstacles: slide along them from where the step started
+    if (hasObstacles) {
+      for (let k = 0; k < count; k++) {
+        const p = active[k]
+        ;[xs[p], ys[p]] = this.obstacles.constrainMove(this.prevX[p], this.prevY[p], xs[p], ys[p], r * radiusScale[types[p]])
       }
     }
 
-    // 5) Enforce boundaries
-    for (const p of active) {
-      if (p.y < 0) p.y += this.Ly
-      if (p.y > this.Ly) p.y -= this.Ly
-      if (p.x < 0) p.x = 0
-      // Remove any substrate particle that hits the right boundary to mimic outflow
-      if (p.x > this.Lx) p.active = false
+    // 6) Enforce boundaries; particles leaving through an absorbing edge are removed
+    const edges = this.params.substrateBoundaries
+    for (let k = 0; k < count; k++) {
+      applyBoundaries(P, active[k], edges, this.Lx, this.Ly)
     }
   }
 
   // Legacy force calculation removed by simplified physics
 
   /**
-   * Spawns a constant number of new energy particles from the left edge on each step.
+   * Slot of the nearest of the first `count` indexed attractors to (x, y), or -1.
+   * Few attractors are scanned directly; otherwise an expanding ring search over
+   * the attractor grid avoids visiting all of them. Attractors closer than 1e-6
+   * are ignored; equal distances resolve to the lower slot, which matches a
+   * linear scan in slot order.
    */
-  private handleEnergyInflow(): void {
-    // Energy pulses: toggle inflow on/off based on frame within the pulse period
-    const period = Math.max(1, this.params.energyPulsePeriodFrames)
-    const half = Math.floor(period / 2)
-    const phase = this.frameCount % period
-    const inflowActive = phase < half
-
-    if (!inflowActive) return
-
-    for (let i = 0; i < this.energyInflowPerTick; i++) {
-      const x = Math.random() * 20; // Spawn in a narrow strip on the far left
-      const y = Math.random() * this.Ly;
-      this.energyParticles.set(this.nextId, new EnergyParticle(this.nextId, x, y));
-      this.nextId++;
+  private findNearestAttractor(count: number, x: number, y: number): number {
+    const xs = this.particles.x
+    const ys = this.particles.y
+    let best = -1
+    let bestDist = Infinity
+    const consider = (s: number) => {
+      const d = Math.hypot(xs[s] - x, ys[s] - y)
+      if (d <= 1e-6) return
+      if (d < bestDist || (d === bestDist && s < best)) {
+        best = s
+        bestDist = d
+      }
+    }
+
+    if (count <= this.attractorLinearScanLimit) {
+      for (let k = 0; k < count; k++) consider(this.attractorSlots[k])
+      return best
+    }
+
+    const grid = this.attractorGrid
+    const cx = grid.cellOf(x)
+    const cy = grid.cellOf(y)
+    const maxRing = grid.maxRing(cx, cy)
+    for (let ring = 0; ring <= maxRing; ring++) {
+      grid.forEachInRing(cx, cy, ring, consider)
+      // Every cell beyond this ring is farther than ring * cellSize
+      if (bestDist <= ring * grid.cellSize) break
     }
+    return best
+  }
+
+  /**
+   * Spawns new energy particles from each energy source, as many as its rate
+   * and waveform allow this frame.
+   */
+  private handleEnergyInflow(): void {
+    const sources = this.params.energySources
+    const emissions = this.inflow.emissions(sources, this.frameCount, this.random)
+    sources.forEach((source, i) => {
+      if (emissions[i] === 0) return
+      const motion = sourceMotion(source)
+      for (let n = 0; n < emissions[i]; n++) {
+        const [x, y] = sampleSourcePoint(source.shape, this.Lx, this.Ly, this.random)
+        this.addEnergyParticle(x, y, motion)
+        this.nextId++
+      }
+    })
   }
 
   /**
    * Main interaction logic.
-   * Iterates through particle triplets to check for reactions or discover new ones.
+   * Finds particle pairs and a powering energy particle within reaction distance
+   * using spatial grids, to check for reactions or discover new ones.
+   *
+   * Pairs are visited in the same (i, j) order as an all-pairs scan over the active
+   * slots, and each pair uses the active energy particle in the lowest slot,
+   * so results are identical to the brute-force search. In thermodynamic mode,
+   * attractors first bank the energy particles around them, and any energy within
+   * reach energizes an encounter; the attractor stores around each particle are
+   * gathered once and shared by all its encounters.
    */
   private processReactionsAndDiscovery(): void {
-    const activeParticles = Array.from(this.particles.values()).filter(p => p.active);
-    const activeEnergy = Array.from(this.energyParticles.values()).filter(p => p.active);
-
-    if (activeParticles.length < 2) return;
-
-    // A spatial hash could optimize this, but for now, we iterate.
-    for (let i = 0; i < activeParticles.length; i++) {
-      for (let j = i + 1; j < activeParticles.length; j++) {
-        const p1 = activeParticles[i];
-        const p2 = activeParticles[j];
-
-        const dist = Math.hypot(p1.x - p2.x, p1.y - p2.y);
-        const reactionRadius = this.params.particleRadius * this.params.reactionDistanceInR;
-        if (dist < reactionRadius) {
-          // Find a nearby energy particle to power the reaction
-          for (const energy of activeEnergy) {
-            if (!energy.active) continue;
-
-            const distE = Math.hypot(p1.x - energy.x, p1.y - energy.y);
-            if (distE < reactionRadius) {
-              this.attemptReaction(p1, p2, energy);
-              // An energy particle can only power one reaction per step
-              break;
-            }
-          }
+    this.ensureScratchCapacity();
+    // Both lists are in ascending slot order; products created below are not visited this step
+    const activeParticles = this.substrateSlots;
+    const particleCount = this.particles.collectActive(activeParticles);
+    const activeEnergy = this.energySlots;
+    const energyCount = this.energyParticles.collectActive(activeEnergy);
+
+    if (particleCount === 0) return;
+
+    const reactionRadius = this.params.particleRadius * this.params.reactionDistanceInR;
+    if (reactionRadius <= 0) return;
+
+    // Grids hold slots; one cell spans the reaction radius. Positions do not change
+    // during this phase, so the grids stay valid while products are added.
+    const particleGrid = this.grid;
+    particleGrid.build(reactionRadius, activeParticles, particleCount, this.particles.x, this.particles.y);
+    const energyGrid = this.energyGrid;
+    energyGrid.build(reactionRadius, activeEnergy, energyCount, this.energyParticles.x, this.energyParticles.y);
+    const thermo = this.params.thermodynamics.enabled;
+    if (thermo) this.chargeAttractors(activeParticles, particleCount, reactionRadius);
+
+    const partners: number[] = [];
+    const stores: number[] = [];
+    for (let i = 0; i < particleCount; i++) {
+      const p1 = activeParticles[i];
+      const x1 = this.particles.x[p1];
+      const y1 = this.particles.y[p1];
+      if (thermo) this.collectStores(p1, reactionRadius, stores);
+
+      // Single-reactant reactions, such as decays, need only the particle and energy
+      const unimolecular = this.reactionsByKey.get(getReactionKey(this.particles.type[p1]));
+      if (unimolecular && this.particles.active[p1]) {
+        const energy = this.findEnergy(x1, y1, reactionRadius);
+        if (energy !== -1 || (thermo && this.reachableEnergy([p1], -1, stores) > 0)) {
+          this.rollReaction(unimolecular.map(reaction => ({ reaction, slots: [p1] })), energy, stores);
+          if (!this.particles.active[p1]) continue;
+        }
+      }
+
+      partners.length = 0;
+      particleGrid.forEachNear(x1, y1, 1, (p2) => {
+        if (p2 > p1) partners.push(p2);
+      });
+      partners.sort((a, b) => a - b);
+
+      for (const p2 of partners) {
+        const dist = Math.hypot(x1 - this.particles.x[p2], y1 - this.particles.y[p2]);
+        if (dist >= reactionRadius) continue;
+
+        // An energy particle can only power one reaction per step, unless it has energy to spare
+        const energy = this.findEnergy(x1, y1, reactionRadius);
+        if (energy !== -1 || (thermo && this.reachableEnergy([p1, p2], -1, stores) > 0)) {
+          this.attemptReaction(p1, p2, energy, reactionRadius, stores);
         }
       }
     }
   }
 
   /**
-   * Given two substrate particles and an energy particle, attempt a known reaction (fixed catalog)
+   * Thermodynamic mode: each energy-attracting particle absorbs the energy particles
+   * within reaction distance into its store, lowest slots first, up to its capacity.
    */
-  private attemptReaction(p1: SubstrateParticle, p2: SubstrateParticle, energy: EnergyParticle): void {
-    const reactionKey = this.getReactionKey(p1.type, p2.type);
-    const reaction = this.reactionCatalog.get(reactionKey);
+  private chargeAttractors(slots: Int32Array, count: number, reactionRadius: number): void {
+    const P = this.particles;
+    const E = this.energyParticles;
+    const capacity = this.params.thermodynamics.attractorCapacity;
+    const nearby: number[] = [];
+    for (let k = 0; k < count; k++) {
+      const a = slots[k];
+      if (!this.attractsEnergy[P.type[a]] || P.storedEnergy[a] >= capacity) continue;
+      nearby.length = 0;
+      this.energyGrid.forEachNear(P.x[a], P.y[a], 1, (e) => {
+        if (E.active[e] && Math.hypot(P.x[a] - E.x[e], P.y[a] - E.y[e]) < reactionRadius) nearby.push(e);
+      });
+      nearby.sort((x, y) => x - y);
+      for (const e of nearby) {
+        const absorbed = Math.min(E.amount[e], capacity - P.storedEnergy[a]);
+        P.storedEnergy[a] += absorbed;
+        E.amount[e] -= absorbed;
+        if (E.amount[e] <= 0) E.active[e] = 0;
+        if (P.storedEnergy[a] >= capacity) break;
+      }
+    }
+  }
 
-    // If no known reaction for this pair, nothing happens (fixed catalog)
-    if (!reaction) return;
+  /**
+   * Fills `stores` with the energy-attracting particles within reaction distance
+   * of `slot`, itself included, in slot order. Reactions fired since may have
+   * consumed them or reused their slots, so users recheck each before drawing on it.
+   */
+  private collectStores(slot: number, reactionRadius: number, stores: number[]): void {
+    const P = this.particles;
+    const x = P.x[slot];
+    const y = P.y[slot];
+    stores.length = 0;
+    this.grid.forEachNear(x, y, 1, (s) => {
+      if (!this.attractsEnergy[P.type[s]]) return;
+      if (Math.hypot(x - P.x[s], y - P.y[s]) < reactionRadius) stores.push(s);
+    });
+    stores.sort((a, b) => a - b);
+  }
 
-    // --- Reaction Execution ---
-    if (Math.random() < reaction.efficiency) {
-      this.executeReaction(p1, p2, energy, reaction);
+  /**
+   * Thermodynamic mode: energy a reaction among `slots` can draw on, with `energy`
+   * as its energy particle or -1 and `stores` from collectStores for its first participant
+   */
+  private reachableEnergy(slots: number[], energy: number, stores: number[]): number {
+    const P = this.particles;
+    let total = energy === -1 ? 0 : this.energyParticles.amount[energy];
+    for (const s of slots) total += P.storedEnergy[s];
+    for (const s of stores) {
+      if (P.active[s] && this.attractsEnergy[P.type[s]] && !slots.includes(s)) total += P.storedEnergy[s];
     }
+    return total;
   }
 
-  // Random discovery removed in fixed-catalog model
+  /** Nearby energy particle to power a reaction at (x, y): the lowest active slot in range, or -1 */
+  private findEnergy(x: number, y: number, reactionRadius: number): number {
+    const E = this.energyParticles;
+    let energy = -1;
+    this.energyGrid.forEachNear(x, y, 1, (e) => {
+      if (energy !== -1 && e > energy) return;
+      if (!E.active[e]) return;
+      if (Math.hypot(x - E.x[e], y - E.y[e]) < reactionRadius) energy = e;
+    });
+    return energy;
+  }
 
   /**
-   * Executes a reaction: consumes energy and reactant, creates two new product particles.
+   * Given two substrate slots and an energy slot (-1 when only stored energy is
+   * within reach), attempt one of the reactions the pair takes part in, with a
+   * third particle nearby where one is needed, or discover a new one for an
+   * uncatalogued pair when discovery mode is on. Stored energy alone only powers
+   * known reactions.
    */
-  private executeReaction(p1: SubstrateParticle, p2: SubstrateParticle, energy: EnergyParticle, reaction: Reaction): void {
-    energy.active = false; // Consume energy
+  private attemptReaction(p1: number, p2: number, energy: number, reactionRadius: number, stores: number[]): void {
+    const type1 = this.particles.type[p1] as ParticleType;
+    const type2 = this.particles.type[p2] as ParticleType;
+    const reactionKey = getReactionKey(type1, type2);
+    const candidates: ReactionCandidate[] = (this.reactionsByKey.get(reactionKey) ?? []).map(reaction => ({ reaction, slots: [p1, p2] }));
+    for (const third of this.thirdBodies.get(reactionKey) ?? []) {
+      const p3 = this.findThirdBody(p1, p2, third, reactionRadius);
+      if (p3 === -1) continue;
+      for (const reaction of this.reactionsByKey.get(getReactionKey(type1, type2, third))!) {
+        candidates.push({ reaction, slots: [p1, p2, p3] });
+      }
+    }
+
+    if (candidates.length === 0) {
+      if (energy === -1) return;
+      this.uncatalogedEncounters++;
+      // Without discovery, an unknown pair does nothing (fixed catalog)
+      if (this.params.discoveryProbability <= 0) return;
+      if (this.random() >= this.params.discoveryProbability) return;
+      candidates.push({ reaction: this.discoverReaction(type1, type2), slots: [p1, p2] });
+    }
+    this.rollReaction(candidates, energy, stores);
+  }
+
+  /**
+   * The third participant for a pair: the lowest active slot above `p2` of the
+   * given type within reaction distance of `p1`, or -1. Requiring a slot above
+   * both others visits each trio once per step.
+   */
+  private findThirdBody(p1: number, p2: number, type: ParticleType, reactionRadius: number): number {
+    const P = this.particles;
+    const x1 = P.x[p1];
+    const y1 = P.y[p1];
+    let third = -1;
+    this.grid.forEachNear(x1, y1, 1, (p3) => {
+      if (p3 <= p2 || (third !== -1 && p3 > third)) return;
+      if (!P.active[p3] || P.type[p3] !== type) return;
+      if (Math.hypot(x1 - P.x[p3], y1 - P.y[p3]) < reactionRadius) third = p3;
+    });
+    return third;
+  }
+
+  /**
+   * Picks at most one of the competing candidates with a single roll: each fires
+   * with its efficiency as probability, scaled down together when they sum past 1.
+   * In thermodynamic mode the winner fires only if the energy within reach pays
+   * for it, and otherwise counts as starved.
+   */
+  private rollReaction(candidates: ReactionCandidate[], energy: number, stores: number[]): void {
+    const thermo = this.params.thermodynamics.enabled;
+    const total = candidates.reduce((sum, c) => sum + c.reaction.efficiency, 0);
+    let roll = this.random() * Math.max(1, total);
+    for (const candidate of candidates) {
+      if (roll < candidate.reaction.efficiency) {
+        if (thermo && candidate.reaction.energyRequired > this.reachableEnergy(candidate.slots, energy, stores)) {
+          this.energyStarvedEncounters++;
+          return;
+        }
+        this.executeReaction(candidate.slots, energy, candidate.reaction, stores);
+        return;
+      }
+      roll -= candidate.reaction.efficiency;
+    }
+    this.failedEfficiencyRolls++;
+    for (const candidate of candidates) this.flux.recordFailedRoll(candidate.reaction.id);
+  }
+
+  /**
+   * Creates a random reaction for an uncatalogued pair and adds it to the catalog.
+   * The new reaction lives until the next reset.
+   */
+  private discoverReaction(type1: ParticleType, type2: ParticleType): Reaction {
+    const id = nextReactionId(this.reactionCatalog, 'd');
+    const reaction = createRandomReaction(id, type1, type2, this.params.species.length, this.random);
+    this.addToCatalog(reaction);
+    const discovery = { frame: this.frameCount, reaction: copyReaction(reaction) };
+    this.discoveries.push(discovery);
+    this.pendingDiscoveries.push(discovery);
+    return reaction;
+  }
+
+  /**
+   * Returns reactions discovered since the previous call, for reporting to the UI.
+   */
+  public takeDiscoveries(): DiscoveredReaction[] {
+    const pending = this.pendingDiscoveries;
+    this.pendingDiscoveries = [];
+    return pending;
+  }
+
+  public getDiscoveries(): DiscoveredReaction[] {
+    return this.discoveries.map(d => ({ frame: d.frame, reaction: copyReaction(d.reaction) }));
+  }
+
+  /**
+   * Executes a reaction among the participants in `slots`: consumes energy and
+   * reactants, keeps the catalyst, and creates the product particles.
+   */
+  private executeReaction(slots: number[], energy: number, reaction: Reaction, stores: number[]): void {
+    const P = this.particles;
     this.totalReactions++;
+    this.flux.recordFiring(reaction.id, this.frameCount);
     
-    let catalyst: SubstrateParticle, reactant: SubstrateParticle;
-    if (p1.type === reaction.catalyst) {
-      catalyst = p1;
-      reactant = p2;
+    // The first participant of the catalyst's type survives; the reactants are consumed.
+    const catalyst = reaction.catalyst === null ? -1 : slots.find(s => P.type[s] === reaction.catalyst)!;
+    const reactants = slots.filter(s => s !== catalyst);
+    let passedOn = 0;
+    if (this.params.thermodynamics.enabled) {
+      passedOn = this.payForReaction(reaction, reactants, catalyst, energy, stores);
     } else {
-      catalyst = p2;
-      reactant = p1;
+      // Consume energy
+      this.energySpent += this.energyParticles.amount[energy];
+      this.energyParticles.active[energy] = 0;
     }
-
-    // The reactant is consumed in the reaction.
-    reactant.active = false;
+    for (const s of reactants) P.active[s] = 0;
     
-    // Create the two new product particles near the catalyst.
+    // Create the products near the catalyst, or the first reactant without one.
+    const anchor = catalyst === -1 ? reactants[0] : catalyst;
+    const catalystX = P.x[anchor];
+    const catalystY = P.y[anchor];
+    const origin = {
+      reactionId: reaction.id,
+      catalystId: catalyst === -1 ? null : P.id[catalyst],
+      reactantIds: reactants.map(s => P.id[s]),
+    };
+    const generation = Math.max(...slots.map(s => P.generation[s])) + 1;
+    for (const s of slots) P.offspring[s] += reaction.products.length;
     const createProduct = (productType: ParticleType) => {
-      const angle = Math.random() * 2 * Math.PI;
-      const distance = this.params.particleRadius * 2 * (1.5 + Math.random() * 2.0); // birth kick scaled by 2r
-      const newX = catalyst.x + Math.cos(angle) * distance;
-      const newY = catalyst.y + Math.sin(angle) * distance;
+      const angle = this.random() * 2 * Math.PI;
+      const distance = this.params.particleRadius * 2 * (1.5 + this.random() * 2.0); // birth kick scaled by 2r
+      // Products cannot be kicked through obstacles
+      const [newX, newY] = this.obstacles.constrainMove(
+        catalystX, catalystY,
+        catalystX + Math.cos(angle) * distance, catalystY + Math.sin(angle) * distance,
+        this.radiusOf(productType),
+      );
       
       // Create new product with current frame as birthFrame so lifespan is global
-      const newParticle = new SubstrateParticle(this.nextId, newX, newY, productType, this.frameCount)
-      this.particles.set(this.nextId, newParticle);
+      const slot = P.add(this.nextId, newX, newY, productType, this.frameCount)
+      P.setOrigin(slot, origin, generation);
       this.nextId++;
-      return newParticle;
+      return slot;
     };
 
-    const newParticle1 = createProduct(reaction.product1);
-    const newParticle2 = createProduct(reaction.product2);
+    const products = reaction.products.map(type => createProduct(type));
     
-    // Boost energy for visualization
-    catalyst.energy = Math.min(1, catalyst.energy + 0.5);
-    newParticle1.energy = 1.0; 
-    newParticle2.energy = 1.0;
+    // Boost energy for visualization (storage may have grown, so index the current columns)
+    if (catalyst !== -1) P.energy[catalyst] = Math.min(1, P.energy[catalyst] + 0.5);
+    for (const product of products) P.energy[product] = 1.0;
+
+    // Products share what is passed on; without products the catalyst keeps it, and with neither it is lost
+    if (passedOn > 0) {
+      if (products.length > 0) {
+        for (const product of products) P.storedEnergy[product] = passedOn / products.length;
+      } else if (catalyst !== -1) {
+        P.storedEnergy[catalyst] += passedOn;
+      }
+    }
   }
 
-  /** Generates a consistent key for a pair of reactant types. */
-  private getReactionKey(type1: ParticleType, type2: ParticleType): string {
-    // Sort to ensure A+B is the same as B+A
-    return type1 < type2 ? `${type1}-${type2}` : `${type2}-${type1}`;
+  /**
+   * Thermodynamic mode: pays a reaction's energyRequired from what the consumed
+   * reactants hold, then the energy particle, then the attractor `stores`, and
+   * last the catalyst. Returns the energy passed on to the products: what the
+   * reactants held beyond the cost plus the reaction's release.
+   */
+  private payForReaction(reaction: Reaction, reactants: number[], catalyst: number, energy: number, stores: number[]): number {
+    const P = this.particles;
+    const E = this.energyParticles;
+    let due = reaction.energyRequired;
+    const draw = (available: number) => {
+      const drawn = Math.min(due, available);
+      due -= drawn;
+      return drawn;
+    };
+
+    let held = 0;
+    for (const s of reactants) {
+      held += P.storedEnergy[s];
+      P.storedEnergy[s] = 0;
+    }
+    held -= draw(held);
+    if (energy !== -1) {
+      E.amount[energy] -= draw(E.amount[energy]);
+      if (E.amount[energy] <= 0) E.active[energy] = 0;
+    }
+    for (const s of stores) {
+      if (!P.active[s] || !this.attractsEnergy[P.type[s]] || s === catalyst || reactants.includes(s)) continue;
+      P.storedEnergy[s] -= draw(P.storedEnergy[s]);
+    }
+    if (catalyst !== -1) P.storedEnergy[catalyst] -= draw(P.storedEnergy[catalyst]);
+
+    this.energySpent += reaction.energyRequired - due;
+    this.energyReleased += reaction.energyReleased;
+    return held + reaction.energyReleased;
   }
 
   private cleanupInactiveParticles(): void {
-    for (const [id, particle] of this.particles) {
-      if (!particle.active) {
-        this.particles.delete(id);
-      } else {
-        particle.energy = Math.max(0, particle.energy - 0.05);
-      }
+    const P = this.particles;
+    for (let s = 0; s < P.highWater; s++) {
+      if (P.used[s] && !P.active[s]) this.rememberDeparture(s);
     }
-    for (const [id, particle] of this.energyParticles) {
-      if (!particle.active) {
-        this.energyParticles.delete(id);
-      }
+    P.releaseInactive();
+    for (let s = 0; s < P.highWater; s++) {
+      if (P.active[s]) P.energy[s] = Math.max(0, P.energy[s] - 0.05);
+    }
+    this.energyParticles.releaseInactive();
+  }
+
+  /** Archives a substrate particle about to be released if descendants may trace back through it */
+  private rememberDeparture(slot: number): void {
+    if (this.particles.offspring[slot] > 0) this.ancestors.add(this.provenanceOf(slot));
+  }
+
+  private provenanceOf(slot: number): ParticleProvenance {
+    const P = this.particles;
+    return {
+      id: P.id[slot],
+      type: P.type[slot] as ParticleType,
+      birthFrame: P.birthFrame[slot],
+      generation: P.generation[slot],
+      origin: P.origin(slot),
+      offspring: P.offspring[slot],
+    };
+  }
+
+  /**
+   * Ancestry of a particle, alive or remembered: itself, the catalyst and
+   * reactants it came from, theirs, and so on.
+   */
+  public getAncestry(id: ParticleId): Ancestry {
+    const P = this.particles;
+    const live = new Map<ParticleId, number>();
+    for (let s = 0; s < P.highWater; s++) {
+      if (P.active[s]) live.set(P.id[s], s);
     }
+    const lookup = (ancestor: ParticleId) => {
+      const slot = live.get(ancestor);
+      return slot === undefined ? this.ancestors.get(ancestor) : this.provenanceOf(slot);
+    };
+    return traceAncestry(id, lookup, this.ancestryQueryLimit);
   }
 
-  public exportState(): SimulationState {
-    const activeParticles = Array.from(this.particles.values()).filter(p => p.active);
-    const activeEnergy = Array.from(this.energyParticles.values()).filter(p => p.active);
-    const totalParticles = activeParticles.length + activeEnergy.length;
+  /**
+   * Render state and stats. Positions and types are written straight from the
+   * particle columns into the output buffers, substrates first, in slot order.
+   * Energies and normalized ages are only included when requested.
+   */
+  public exportState(options: StateExportOptions = {}): SimulationState {
+    const P = this.particles;
+    const E = this.energyParticles;
+    const substrateCount = P.countActive();
+    const energyCount = E.countActive();
+    const totalParticles = substrateCount + energyCount;
 
     const positions = new Float32Array(totalParticles * 2);
     const types = new Uint8Array(totalParticles);
-    // Energies removed from render state for simplicity
+    // Energy particles keep zero energy and age
+    const energies = options.energies ? new Float32Array(totalParticles) : undefined;
+    const ages = options.ages ? new Float32Array(totalParticles) : undefined;
+    const lifespan = Math.max(1, this.params.particleLifespan);
+    // Count particles of each species for stats
+    const speciesCount = this.params.species.length;
+    const counts = new Uint32Array(speciesCount);
+    const generationSums = new Float64Array(speciesCount);
+    const generationMaxima = new Float64Array(speciesCount);
+    const originals = new Uint32Array(speciesCount);
+    let freeEnergy = 0;
+    let storedEnergy = 0;
 
     let i = 0;
-    for (const p of activeParticles) {
-      positions[i * 2] = p.x;
-      positions[i * 2 + 1] = p.y;
-      types[i] = p.type;
-      // energy value no longer exported
+    for (let s = 0; s < P.highWater; s++) {
+      if (!P.active[s]) continue;
+      positions[i * 2] = P.x[s];
+      positions[i * 2 + 1] = P.y[s];
+      types[i] = P.type[s];
+      if (energies) energies[i] = P.energy[s];
+      if (ages) ages[i] = Math.min(1, (this.frameCount - P.birthFrame[s]) / lifespan);
+      counts[P.type[s]]++;
+      generationSums[P.type[s]] += P.generation[s];
+      generationMaxima[P.type[s]] = Math.max(generationMaxima[P.type[s]], P.generation[s]);
+      if (P.generation[s] === 0) originals[P.type[s]]++;
+      storedEnergy += P.storedEnergy[s];
       i++;
     }
-    for (const p of activeEnergy) {
-      positions[i * 2] = p.x;
-      positions[i * 2 + 1] = p.y;
+    for (let s = 0; s < E.highWater; s++) {
+      if (!E.active[s]) continue;
+      positions[i * 2] = E.x[s];
+      positions[i * 2 + 1] = E.y[s];
       types[i] = ParticleType.Energy;
-      // energy value no longer exported
+      freeEnergy += E.amount[s];
       i++;
     }
 
-    // Count particles of each type for stats
-    const counts = activeParticles.reduce((acc, p) => {
-      acc[p.type] = (acc[p.type] || 0) + 1;
-      return acc;
-    }, {} as Record<ParticleType, number>);
+    const protocells = this.detectProtocells();
+    const protocellArea = protocells.reduce((sum, cell) => sum + cell.area, 0);
+    const protocellContents = protocells.reduce(
+      (sum, cell) => sum + Object.values(cell.contents).reduce((n, c) => n + c, 0), 0,
+    );
+
+    const generations: SpeciesGenerations[] = [];
+    for (let type = 0; type < speciesCount; type++) {
+      if (counts[type] === 0) continue;
+      generations.push({
+        type: type as ParticleType,
+        count: counts[type],
+        meanGeneration: generationSums[type] / counts[type],
+        maxGeneration: generationMaxima[type],
+        originals: originals[type],
+      });
+    }
+    const generationTotal = generationSums.reduce((sum, g) => sum + g, 0);
 
     return {
       positions,
       types,
-      // energies removed
+      energies,
+      ages,
       stats: {
         frameCount: this.frameCount,
-        particleCountA: counts[ParticleType.A] || 0,
-        particleCountB: counts[ParticleType.B] || 0,
-        particleCountC: counts[ParticleType.C] || 0,
-        particleCountD: counts[ParticleType.D] || 0,
-        particleCountAttractor: counts[ParticleType.Attractor] || 0,
-        particleCountE: counts[ParticleType.E] || 0,
-        particleCountBinder: counts[ParticleType.Binder] || 0,
-        energyParticleCount: activeEnergy.length,
+        speciesCounts: Array.from(counts),
+        energyParticleCount: energyCount,
         totalReactions: this.totalReactions,
+        discoveredReactions: this.discoveries.length,
+        failedEfficiencyRolls: this.failedEfficiencyRolls,
+        uncatalogedEncounters: this.uncatalogedEncounters,
+        protocellCount: protocells.length,
+        protocellMeanArea: protocells.length > 0 ? protocellArea / protocells.length : 0,
+        protocellContents,
+        lineageCount: this.lineage.liveCount,
+        fissionEvents: this.lineage.fissionCount,
+        fusionEvents: this.lineage.fusionCount,
+        meanGeneration: substrateCount > 0 ? generationTotal / substrateCount : 0,
+        maxGeneration: generationMaxima.reduce((max, g) => Math.max(max, g), 0),
+        freeEnergy,
+        storedEnergy,
+        energyInjected: this.energyInjected,
+        energySpent: this.energySpent,
+        energyReleased: this.energyReleased,
+        // Whatever the balance no longer finds in the world has left it
+        energyLost: Math.max(0, this.energyInjected + this.energyReleased - this.energySpent - freeEnergy - storedEnergy),
+        energyStarvedEncounters: this.energyStarvedEncounters,
       },
+      reactionFlux: this.flux.report(this.reactionCatalog.map(r => r.id)),
+      fluxWindowFrames: this.fluxWindowFrames,
+      protocells,
+      generations,
     };
   }
 
+  /**
+   * Adds `count` particles of a type (substrate or energy) at uniformly random
+   * points within `radius` of (x, y), born at the current frame. Energy particles
+   * take the flow of the first energy source, if any; types outside the species
+   * registry are ignored. Returns the number of particles added.
+   */
+  public spawnParticles(type: ParticleType, x: number, y: number, radius: number, count: number): number {
+    this.protocells = null;
+    if (type !== ParticleType.Energy && type >= this.params.species.length) return 0;
+    const [firstSource] = this.params.energySources;
+    const energyMotion = firstSource ? sourceMotion(firstSource) : STILL_MOTION;
+    for (let i = 0; i < count; i++) {
+      const angle = this.random() * 2 * Math.PI;
+      const distance = radius * Math.sqrt(this.random());
+      const px = x + Math.cos(angle) * distance;
+      const py = y + Math.sin(angle) * distance;
+      if (type === ParticleType.Energy) {
+        this.addEnergyParticle(px, py, energyMotion);
+      } else {
+        this.particles.add(this.nextId, ...this.obstacles.pushOut(px, py, this.radiusOf(type)), type, this.frameCount);
+      }
+      this.nextId++;
+    }
+    return count;
+  }
+
+  /**
+   * Removes every particle within `radius` of (x, y), or only those of the given
+   * types (ParticleType.Energy selects energy particles). Returns the number removed.
+   */
+  public removeParticlesInRegion(x: number, y: number, radius: number, types?: ParticleType[]): number {
+    this.protocells = null;
+    let removed = 0;
+    const P = this.particles;
+    for (let s = 0; s < P.highWater; s++) {
+      if (!P.active[s] || (types && !types.includes(P.type[s] as ParticleType))) continue;
+      if (Math.hypot(P.x[s] - x, P.y[s] - y) > radius) continue;
+      this.rememberDeparture(s);
+      P.release(s);
+      removed++;
+    }
+    if (types && !types.includes(ParticleType.Energy)) return removed;
+    const E = this.energyParticles;
+    for (let s = 0; s < E.highWater; s++) {
+      if (!E.active[s] || Math.hypot(E.x[s] - x, E.y[s] - y) > radius) continue;
+      E.release(s);
+      removed++;
+    }
+    return removed;
+  }
+
+  /**
+   * Shifts every particle within `radius` of (x, y) by (dx, dy), as if dragged,
+   * pushing any that would land inside an obstacle back out of it.
+   * Returns the number of particles moved.
+   */
+  public moveParticlesInRegion(x: number, y: number, radius: number, dx: number, dy: number): number {
+    this.protocells = null;
+    let moved = 0;
+    for (const store of [this.particles, this.energyParticles]) {
+      for (let s = 0; s < store.highWater; s++) {
+        if (!store.active[s] || Math.hypot(store.x[s] - x, store.y[s] - y) > radius) continue;
+        const r = store === this.particles ? this.radiusOf(this.particles.type[s]) : this.energyRadius;
+        [store.x[s], store.y[s]] = this.obstacles.pushOut(store.x[s] + dx, store.y[s] + dy, r);
+        moved++;
+      }
+    }
+    return moved;
+  }
+
+  /**
+   * Substrate particles within `radius` of world point (x, y), nearest first.
+   */
+  public queryParticles(x: number, y: number, radius: number): ParticleInfo[] {
+    const P = this.particles;
+    const hits: { slot: number; dist: number }[] = [];
+    for (let s = 0; s < P.highWater; s++) {
+      if (!P.active[s]) continue;
+      const dist = Math.hypot(P.x[s] - x, P.y[s] - y);
+      if (dist <= radius) hits.push({ slot: s, dist });
+    }
+    hits.sort((a, b) => a.dist - b.dist);
+    return hits.map(h => this.describeParticle(h.slot));
+  }
+
+  /**
+   * Inspection details for the particle with the given id, or null if it no longer exists.
+   */
+  public getParticleInfo(id: ParticleId): ParticleInfo | null {
+    const P = this.particles;
+    for (let s = 0; s < P.highWater; s++) {
+      if (P.active[s] && P.id[s] === id) return this.describeParticle(s);
+    }
+    return null;
+  }
+
+  private describeParticle(slot: number): ParticleInfo {
+    const P = this.particles;
+    const type = P.type[slot] as ParticleType;
+    return {
+      id: P.id[slot],
+      type,
+      x: P.x[slot],
+      y: P.y[slot],
+      birthFrame: P.birthFrame[slot],
+      age: this.frameCount - P.birthFrame[slot],
+      energy: P.energy[slot],
+      storedEnergy: P.storedEnergy[slot],
+      reactions: this.reactionCatalog
+        .filter(r => reactionParticipants(r).includes(type))
+        .map(copyReaction),
+      generation: P.generation[slot],
+      origin: P.origin(slot),
+      offspring: P.offspring[slot],
+    };
+  }
+
+  /**
+   * Finds the autocatalytic sets (RAFs) of the current catalog and marks
+   * which are alive given current populations and recent reaction firings.
+   */
+  public analyzeAutocatalysis(): AutocatalysisReport {
+    const foodSet = this.params.rafFoodSet ?? this.initiallySeededTypes();
+
+    const counts = new Map<ParticleType, number>();
+    const P = this.particles;
+    for (let s = 0; s < P.highWater; s++) {
+      if (P.active[s]) counts.set(P.type[s] as ParticleType, (counts.get(P.type[s] as ParticleType) ?? 0) + 1);
+    }
+
+    const byId = new Map<string, Reaction>();
+    const rafReactions: RafReaction<ParticleType>[] = [];
+    for (const r of this.reactionCatalog) {
+      byId.set(r.id, r);
+      rafReactions.push({
+        id: r.id,
+        reactants: r.reactants,
+        products: r.products,
+        catalysts: r.catalyst === null ? [] : [r.catalyst],
+      });
+    }
+
+    const describe = (set: RafReaction<ParticleType>[]): RafSet => {
+      const species = new Set<ParticleType>();
+      let alive = true;
+      for (const r of set) {
+        for (const s of [...r.reactants, ...r.catalysts]) {
+          species.add(s);
+          if (!counts.get(s)) alive = false;
+        }
+        for (const s of r.products) species.add(s);
+        if (this.flux.windowCount(r.id) === 0) alive = false;
+      }
+      return {
+        reactions: set.map(r => copyReaction(byId.get(r.id)!)),
+        species: Array.from(species).sort((a, b) => a - b),
+        alive,
+      };
+    };
+
+    const maxRaf = findMaxRaf(rafReactions, foodSet);
+    return {
+      frame: this.frameCount,
+      foodSet: [...foodSet],
+      maxRaf: maxRaf.length > 0 ? describe(maxRaf) : null,
+      irreducibleRafs: findIrreducibleRafs(maxRaf, foodSet).map(describe),
+      activityWindowFrames: this.fluxWindowFrames,
+    };
+  }
+
+  /** Substrate types given a non-zero initial count in params */
+  private initiallySeededTypes(): ParticleType[] {
+    return this.params.species.flatMap((species, type) => (species.initialCount > 0 ? [type] : []));
+  }
+
+  public getReactions(): Reaction[] {
+    return this.reactionCatalog.map(copyReaction);
+  }
+
+  /**
+   * Replaces the reaction catalog immediately and for all later resets.
+   * Throws if any reaction violates the catalog schema.
+   */
+  public setReactions(reactions: Reaction[]): void {
+    const problem = validateReactionCatalog(reactions, this.params.species.length);
+    if (problem) throw new Error(`Invalid reaction catalog: ${problem}`);
+    this.catalogTemplate = reactions.map(copyReaction);
+    this.loadCatalog(this.catalogTemplate);
+
+    // Keep this run's discoveries for pairs the new catalog leaves uncovered
+    for (const { reaction } of this.discoveries) {
+      const key = getReactionKey(...reactionParticipants(reaction));
+      if (!this.reactionsByKey.has(key)) this.addToCatalog(copyReaction(reaction));
+    }
+  }
+
+  public getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  public getParams(): SimulationParams {
+    return { ...this.params };
+  }
+
+  /**
+   * Applies changed params; initial counts only take effect on reset.
+   * Throws if a new species registry is invalid or drops species the catalog uses.
+   */
   public updateParams(newParams: Partial<SimulationParams>): void {
+    if (newParams.species) this.checkSpecies(newParams.species);
     this.params = { ...this.params, ...newParams };
+    this.protocells = null;
+    if (newParams.species) {
+      this.applySpecies();
+      this.removeUnregisteredParticles();
+    }
     if (newParams.Lx) this.Lx = newParams.Lx;
     if (newParams.Ly) this.Ly = newParams.Ly;
+    if (newParams.obstacles) this.obstacles = new ObstacleField(newParams.obstacles);
+    if (newParams.flow) this.flow.setField(newParams.flow);
   }
 
   public reset(): void {
     this.initialize();
   }
+
+  /** Throws unless `species` is a valid registry covering every species used by `reactions`, the catalog by default */
+  private checkSpecies(species: Species[], reactions: Reaction[] = [...this.catalogTemplate, ...this.reactionCatalog]): void {
+    const problem = validateSpecies(species);
+    if (problem) throw new Error(`Invalid species registry: ${problem}`);
+    for (const r of reactions) {
+      if (Math.max(...reactionTypes(r)) >= species.length) {
+        throw new Error(`Invalid species registry: reaction ${r.id} uses a species it lacks`);
+      }
+    }
+  }
+
+  /** Removes particles whose species was dropped from the registry */
+  private removeUnregisteredParticles(): void {
+    const P = this.particles;
+    for (let s = 0; s < P.highWater; s++) {
+      if (P.used[s] && P.type[s] >= this.params.species.length) P.release(s);
+    }
+  }
+
+  /**
+   * Captures the complete world state, including the PRNG position.
+   */
+  public exportSnapshot(): SimulationSnapshot {
+    const P = this.particles;
+    const E = this.energyParticles;
+    return {
+      version: SNAPSHOT_VERSION,
+      params: { ...this.params },
+      frameCount: this.frameCount,
+      nextId: this.nextId,
+      totalReactions: this.totalReactions,
+      failedEfficiencyRolls: this.failedEfficiencyRolls,
+      uncatalogedEncounters: this.uncatalogedEncounters,
+      energyStarvedEncounters: this.energyStarvedEncounters,
+      energyInjected: this.energyInjected,
+      energySpent: this.energySpent,
+      energyReleased: this.energyReleased,
+      randomState: this.random.getState(),
+      reactions: this.reactionCatalog.map(copyReaction),
+      discoveries: this.getDiscoveries(),
+      particles: this.activeSlots(this.particles).map(s => ({
+        id: P.id[s], x: P.x[s], y: P.y[s], type: P.type[s] as ParticleType,
+        birthFrame: P.birthFrame[s], energy: P.energy[s], slot: s,
+        generation: P.generation[s], origin: P.origin(s), offspring: P.offspring[s], storedEnergy: P.storedEnergy[s],
+      })),
+      energyParticles: this.activeSlots(this.energyParticles).map(s => ({
+        id: E.id[s], x: E.x[s], y: E.y[s], slot: s, motion: E.motion(s), amount: E.amount[s],
+      })),
+      energyInflow: this.inflow.exportState(),
+      lineage: this.lineage.exportState(),
+      ancestors: this.ancestors.exportState(),
+    };
+  }
+
+  /** Active slots of a store in ascending order */
+  private activeSlots(store: SubstrateStore | EnergyStore): number[] {
+    const slots: number[] = [];
+    for (let s = 0; s < store.highWater; s++) {
+      if (store.active[s]) slots.push(s);
+    }
+    return slots;
+  }
+
+  /**
+   * Replaces the whole world with a previously exported snapshot.
+   * Older format versions are upgraded. Throws, leaving the world untouched, for
+   * versions this build does not know and for snapshots with missing parts, an
+   * invalid species registry or catalog, or particles of unregistered species.
+   */
+  public loadSnapshot(snapshot: SimulationSnapshot): void {
+    if (!Number.isInteger(snapshot.version) || snapshot.version < 1 || snapshot.version > SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version ${snapshot.version}, expected ${SNAPSHOT_VERSION} or older`);
+    }
+    if (typeof snapshot.params !== 'object' || snapshot.params === null) throw new Error('Invalid snapshot: params are missing');
+    for (const part of ['particles', 'energyParticles', 'reactions'] as const) {
+      if (!Array.isArray(snapshot[part])) throw new Error(`Invalid snapshot: ${part} are missing`);
+    }
+    // Version 1 holds two-reactant reactions and single-reactant origins, and no energy accounting
+    const version1 = snapshot.version < 2;
+    const upgradeReactions = (reactions: Reaction[]) =>
+      version1 ? (reactions as unknown as LegacyReaction[]).map(r => upgradeReaction(r)) : reactions.map(copyReaction);
+    const loadOrigin = (origin: ParticleOrigin) => (version1 ? upgradeOrigin(origin as unknown as LegacyOrigin) : origin);
+
+    // Fill in params missing from older snapshots: no obstacles and the original edges,
+    // one pulsing left-edge energy source, the uniform rightward current as flow,
+    // the original species with the per-type initial counts and uniform physics,
+    // and thermodynamic mode off
+    const legacy = snapshot.params as SimulationParams & LegacyCounts & { energyPulsePeriodFrames?: number; current?: number };
+    const {
+      energyPulsePeriodFrames, current,
+      particleCountA, particleCountB, particleCountC, particleCountD, particleCountE, particleCountBinder,
+      ...stored
+    } = legacy;
+    const params: SimulationParams = {
+      ...stored,
+      species: stored.species ? completeSpecies(stored.species) : speciesFromLegacyCounts({
+        particleCountA, particleCountB, particleCountC, particleCountD, particleCountE, particleCountBinder,
+      }),
+      flow: stored.flow ?? { kind: 'uniform', vx: current ?? 0, vy: 0 },
+      energyFlowCoupling: stored.energyFlowCoupling ?? 0,
+      energySources: stored.energySources ?? [{
+        ...defaultEnergySource,
+        waveform: { kind: 'square', periodFrames: energyPulsePeriodFrames ?? 1000, dutyCycle: 0.5 },
+      }],
+      obstacles: stored.obstacles ?? [],
+      thermodynamics: { ...defaultParams.thermodynamics, ...stored.thermodynamics },
+      substrateBoundaries: stored.substrateBoundaries ?? defaultParams.substrateBoundaries,
+      energyBoundaries: stored.energyBoundaries ?? defaultParams.energyBoundaries,
+    };
+
+    // The restored catalog also becomes the template for later resets
+    const catalog = ensureReactionIds(upgradeReactions(snapshot.reactions));
+    const discoveries = (snapshot.discoveries ?? []).map(d => ({
+      frame: d.frame,
+      reaction: { ...upgradeReactions([d.reaction])[0], id: d.reaction.id },
+    }));
+
+    // Check the upgraded world as setReactions and updateParams would before replacing anything
+    const speciesCount = params.species.length;
+    const problem = validateReactionCatalog(catalog, speciesCount);
+    if (problem) throw new Error(`Invalid snapshot: reaction catalog: ${problem}`);
+    this.checkSpecies(params.species, discoveries.map(d => d.reaction));
+    for (const s of snapshot.particles) {
+      if (!Number.isInteger(s.type) || s.type < 0 || (s.type >= speciesCount && s.type !== ParticleType.Energy)) {
+        throw new Error(`Invalid snapshot: particle ${s.id} has unregistered species ${s.type}`);
+      }
+    }
+
+    this.params = params;
+    this.Lx = snapshot.params.Lx;
+    this.Ly = snapshot.params.Ly;
+    this.obstacles = new ObstacleField(this.params.obstacles);
+    this.flow = new FlowSampler(this.params.flow, this.params.seed);
+    this.applySpecies();
+    this.frameCount = snapshot.frameCount;
+    this.nextId = snapshot.nextId;
+    this.totalReactions = snapshot.totalReactions;
+    this.random = this.createRandom(snapshot.params.seed);
+    this.random.setState(snapshot.randomState);
+
+    this.catalogTemplate = catalog;
+    this.loadCatalog(this.catalogTemplate);
+    this.discoveries = discoveries;
+    this.pendingDiscoveries = [];
+    this.flux.clear();
+    this.protocells = null;
+    this.failedEfficiencyRolls = snapshot.failedEfficiencyRolls ?? 0;
+    this.uncatalogedEncounters = snapshot.uncatalogedEncounters ?? 0;
+    this.energyStarvedEncounters = snapshot.energyStarvedEncounters ?? 0;
+    this.energySpent = snapshot.energySpent ?? 0;
+    this.energyReleased = snapshot.energyReleased ?? 0;
+    this.inflow.loadState(snapshot.energyInflow ?? []);
+    this.ancestors.loadState((snapshot.ancestors ?? []).map(record => ({ ...record, origin: record.origin && loadOrigin(record.origin) })));
+
+    // Recorded slots restore the exact storage layout, so the run resumes identically;
+    // snapshots without them are packed into consecutive slots
+    this.particles.clear();
+    for (const s of snapshot.particles) {
+      const slot = this.particles.add(s.id, s.x, s.y, s.type, s.birthFrame, s.slot);
+      this.particles.energy[slot] = s.energy;
+      if (s.origin) this.particles.setOrigin(slot, loadOrigin(s.origin), s.generation ?? 0);
+      this.particles.offspring[slot] = s.offspring ?? 0;
+      this.particles.storedEnergy[slot] = s.storedEnergy ?? 0;
+    }
+    this.particles.rebuildFreeSlots();
+
+    this.energyParticles.clear();
+    for (const s of snapshot.energyParticles) {
+      this.energyParticles.add(s.id, s.x, s.y, s.motion ?? sourceMotion(defaultEnergySource), s.amount ?? 1, s.slot);
+    }
+    this.energyParticles.rebuildFreeSlots();
+
+    // Version 1 snapshots start the energy balance from the energy now in the world
+    this.energyInjected = version1
+      ? snapshot.energyParticles.reduce((sum, s) => sum + (s.amount ?? 1), 0) +
+        snapshot.particles.reduce((sum, s) => sum + (s.storedEnergy ?? 0), 0)
+      : snapshot.energyInjected ?? 0;
+
+    // Older snapshots start a fresh genealogy from the clusters present now
+    if (snapshot.lineage) {
+      this.lineage.loadState(snapshot.lineage);
+    } else {
+      this.lineage.reset();
+      this.trackLineages();
+    }
+  }
 }
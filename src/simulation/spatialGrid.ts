@@ -0,0 +1,135 @@
+/**
+ * Uniform-grid spatial index over integer item handles (particle slots).
+ *
+ * The grid is rebuilt wholesale with a stable counting sort: integer cell
+ * coordinates are hashed into a power-of-two bucket table, and each bucket keeps
+ * its items in insertion order. Cells whose coordinates collide in a bucket are
+ * told apart by their stored coordinates, so queries are exact for any world
+ * size. Queries visit cells column by column (x outer, y inner), so callers that
+ * depend on iteration order get the same order on every run. Rebuilding reuses
+ * its buffers and does not allocate once they are large enough.
+ */
+export class SpatialGrid {
+  public cellSize = 1;
+
+  private mask = 0;
+  private bucketStart = new Int32Array(1); // Bucket b spans [bucketStart[b], bucketStart[b + 1])
+  private cursor = new Int32Array(0);
+  private items = new Int32Array(0); // Items sorted by bucket
+  private itemCellX = new Int32Array(0);
+  private itemCellY = new Int32Array(0);
+  private size = 0;
+
+  // Occupied cell range, used to bound ring searches
+  private minCellX = 0;
+  private maxCellX = -1;
+  private minCellY = 0;
+  private maxCellY = -1;
+
+  public get isEmpty(): boolean {
+    return this.size === 0;
+  }
+
+  /** Cell coordinate along one axis */
+  public cellOf(v: number): number {
+    return Math.floor(v / this.cellSize);
+  }
+
+  /**
+   * Indexes the first `count` handles of `handles`, located at (xs[h], ys[h]).
+   */
+  public build(
+    cellSize: number,
+    handles: Int32Array,
+    count: number,
+    xs: Float64Array,
+    ys: Float64Array,
+  ): void {
+    this.cellSize = cellSize;
+    this.size = count;
+    let buckets = 16;
+    while (buckets < 2 * count) buckets *= 2;
+    this.mask = buckets - 1;
+    if (this.bucketStart.length < buckets + 1) {
+      this.bucketStart = new Int32Array(buckets + 1);
+      this.cursor = new Int32Array(buckets);
+    } else {
+      this.bucketStart.fill(0, 0, buckets + 1);
+    }
+    if (this.items.length < count) {
+      const capacity = Math.max(64, count * 2);
+      this.items = new Int32Array(capacity);
+      this.itemCellX = new Int32Array(capacity);
+      this.itemCellY = new Int32Array(capacity);
+    }
+
+    this.minCellX = this.minCellY = Infinity;
+    this.maxCellX = this.maxCellY = -Infinity;
+    const start = this.bucketStart;
+    for (let k = 0; k < count; k++) {
+      const h = handles[k];
+      const ix = this.cellOf(xs[h]);
+      const iy = this.cellOf(ys[h]);
+      start[this.bucketOf(ix, iy) + 1]++;
+      if (ix < this.minCellX) this.minCellX = ix;
+      if (ix > this.maxCellX) this.maxCellX = ix;
+      if (iy < this.minCellY) this.minCellY = iy;
+      if (iy > this.maxCellY) this.maxCellY = iy;
+    }
+    for (let b = 0; b < buckets; b++) {
+      start[b + 1] += start[b];
+      this.cursor[b] = start[b];
+    }
+    for (let k = 0; k < count; k++) {
+      const h = handles[k];
+      const ix = this.cellOf(xs[h]);
+      const iy = this.cellOf(ys[h]);
+      const pos = this.cursor[this.bucketOf(ix, iy)]++;
+      this.items[pos] = h;
+      this.itemCellX[pos] = ix;
+      this.itemCellY[pos] = iy;
+    }
+  }
+
+  /** Visits every item in cell (ix, iy) in insertion order */
+  public forEachInCell(ix: number, iy: number, fn: (item: number) => void): void {
+    const b = this.bucketOf(ix, iy);
+    const end = this.bucketStart[b + 1];
+    for (let pos = this.bucketStart[b]; pos < end; pos++) {
+      if (this.itemCellX[pos] === ix && this.itemCellY[pos] === iy) fn(this.items[pos]);
+    }
+  }
+
+  /** Visits every item in the (2 * span + 1)² block of cells around (x, y) */
+  public forEachNear(x: number, y: number, span: number, fn: (item: number) => void): void {
+    if (this.size === 0) return;
+    const cx = this.cellOf(x);
+    const cy = this.cellOf(y);
+    for (let ix = cx - span; ix <= cx + span; ix++) {
+      for (let iy = cy - span; iy <= cy + span; iy++) this.forEachInCell(ix, iy, fn);
+    }
+  }
+
+  /** Visits every item in cells exactly `ring` cells away (Chebyshev) from cell (cx, cy) */
+  public forEachInRing(cx: number, cy: number, ring: number, fn: (item: number) => void): void {
+    for (let ix = cx - ring; ix <= cx + ring; ix++) {
+      const edgeColumn = ix === cx - ring || ix === cx + ring;
+      for (let iy = cy - ring; iy <= cy + ring; iy += edgeColumn || ring === 0 ? 1 : 2 * ring) {
+        this.forEachInCell(ix, iy, fn);
+      }
+    }
+  }
+
+  /** Largest ring around cell (cx, cy) that can still contain items */
+  public maxRing(cx: number, cy: number): number {
+    if (this.isEmpty) return -1;
+    return Math.max(
+      cx - this.minCellX, this.maxCellX - cx,
+      cy - this.minCellY, this.maxCellY - cy,
+    );
+  }
+
+  private bucketOf(ix: number, iy: number): number {
+    return (Math.imul(ix, 73856093) ^ Math.imul(iy, 19349663)) & this.mask;
+  }
+}
@@ -0,0 +1,114 @@
+import type { Species } from './types';
+import { ParticleType } from './types';
+
+/** Most species a registry may hold; the WebGL renderer sizes its color table by it */
+export const MAX_SPECIES = 64;
+
+/** Physical properties of a species that behaves as the global params say */
+export const DEFAULT_PHYSICS: Pick<Species, 'radius' | 'mass' | 'diffusion' | 'drift'> = {
+  radius: 1,
+  mass: 1,
+  diffusion: 1,
+  drift: 1,
+};
+
+/**
+ * The original seven species. Binders stick and hold still in the flow;
+ * attractors pull in energy.
+ */
+export function createDefaultSpecies(): Species[] {
+  const plain = (name: string, color: string, initialCount: number): Species => ({
+    name, color, initialCount, sticky: false, attractsEnergy: false, ...DEFAULT_PHYSICS,
+  });
+  return [
+    plain('A', '#3264ff', 50),
+    plain('B', '#ff3232', 50),
+    plain('C', '#32ff32', 50),
+    plain('D', '#c832ff', 0),
+    { ...plain('Binder', '#c8c8c8', 10), sticky: true, drift: 0 },
+    { ...plain('Attractor', '#ffc832', 0), attractsEnergy: true },
+    plain('E', '#ff96c8', 0),
+  ];
+}
+
+/** Every species index of a registry */
+export function speciesTypes(species: Species[]): ParticleType[] {
+  return species.map((_, type) => type);
+}
+
+/** Display name of a species or of energy, e.g. "Binder" */
+export function speciesName(species: Species[], type: ParticleType): string {
+  if (type === ParticleType.Energy) return 'Energy';
+  return species[type]?.name ?? `#${type}`;
+}
+
+/**
+ * Checks a registry before it is used.
+ * Returns a human-readable problem, or null when the registry is valid.
+ */
+export function validateSpecies(species: Species[]): string | null {
+  if (species.length === 0) return 'at least one species is required';
+  if (species.length > MAX_SPECIES) return `at most ${MAX_SPECIES} species are supported`;
+  const names = new Set<string>();
+  for (let i = 0; i < species.length; i++) {
+    const { name, color, initialCount } = species[i];
+    if (typeof name !== 'string' || name.trim() === '') return `Species ${i + 1}: name must not be empty`;
+    if (names.has(name)) return `Species ${i + 1}: duplicate name "${name}"`;
+    names.add(name);
+    if (!/^#[0-9a-f]{6}$/i.test(color)) return `Species ${i + 1}: color must be a hex color like #3264ff`;
+    if (!(initialCount >= 0)) return `Species ${i + 1}: initial count must not be negative`;
+    const { radius, mass, diffusion, drift } = species[i];
+    if (!(radius > 0)) return `Species ${i + 1}: radius must be positive`;
+    if (!(mass > 0)) return `Species ${i + 1}: mass must be positive`;
+    if (!(diffusion >= 0)) return `Species ${i + 1}: diffusion must not be negative`;
+    if (!(drift >= 0)) return `Species ${i + 1}: drift must not be negative`;
+  }
+  return null;
+}
+
+/**
+ * Species as older params and snapshots store them: without physical properties,
+ * and with a drifts flag instead of a drift fraction.
+ */
+export type StoredSpecies = Omit<Species, keyof typeof DEFAULT_PHYSICS> & Partial<Species> & { drifts?: boolean };
+
+/** Fills in physical properties missing from stored species */
+export function completeSpecies(species: StoredSpecies[]): Species[] {
+  return species.map(({ drifts, ...s }) => ({
+    ...s,
+    radius: s.radius ?? DEFAULT_PHYSICS.radius,
+    mass: s.mass ?? DEFAULT_PHYSICS.mass,
+    diffusion: s.diffusion ?? DEFAULT_PHYSICS.diffusion,
+    drift: s.drift ?? (drifts === false ? 0 : DEFAULT_PHYSICS.drift),
+  }));
+}
+
+/**
+ * Per-type initial counts that params carried before the species registry existed.
+ */
+export interface LegacyCounts {
+  particleCountA?: number;
+  particleCountB?: number;
+  particleCountC?: number;
+  particleCountD?: number;
+  particleCountE?: number;
+  particleCountBinder?: number;
+}
+
+/** The default registry with initial counts taken from legacy params where given */
+export function speciesFromLegacyCounts(counts: LegacyCounts): Species[] {
+  const species = createDefaultSpecies();
+  const legacyKeys: [ParticleType, keyof LegacyCounts][] = [
+    [ParticleType.A, 'particleCountA'],
+    [ParticleType.B, 'particleCountB'],
+    [ParticleType.C, 'particleCountC'],
+    [ParticleType.D, 'particleCountD'],
+    [ParticleType.E, 'particleCountE'],
+    [ParticleType.Binder, 'particleCountBinder'],
+  ];
+  for (const [type, key] of legacyKeys) {
+    const count = counts[key];
+    if (count !== undefined) species[type].initialCount = count;
+  }
+  return species;
+}
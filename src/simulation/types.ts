@@ -11,7 +11,15 @@
 export type ParticleId = number;
 
 /**
- * Particle types in the autocatalytic system
+ * Species of a substrate particle, as an index into SimulationParams.species.
+ * Energy particles are not a species; where both kinds are mixed, such as in
+ * render buffers, they carry the ParticleType.Energy code.
+ */
+export type ParticleType = number;
+
+/**
+ * Species indices of the default registry, which the default reaction catalog
+ * is written against, and the code of energy particles.
  */
 export const ParticleType = {
   A: 0,
@@ -21,20 +29,187 @@ export const ParticleType = {
   Binder: 4, // The special "sticky" particle
   Attractor: 5, // Advanced particle that pulls in energy
   E: 6,
-  Energy: 7,
+  Energy: 255,
 } as const;
-export type ParticleType = typeof ParticleType[keyof typeof ParticleType];
+
+/**
+ * One entry of the species registry. The behavior flags carry the rules that
+ * used to belong to binders and attractors, so any species can take them on.
+ * Physical properties are relative to the global params, so 1 means "as set there".
+ */
+export interface Species {
+  name: string;
+  color: string; // CSS hex color, e.g. '#3264ff'
+  initialCount: number; // Particles placed on reset
+  sticky: boolean; // Binder-like: pulls in nearby particles, stops what it collides with, builds membranes
+  attractsEnergy: boolean; // Attractor-like: pulls nearby energy particles in
+  radius: number; // Collision and drawing radius in multiples of particleRadius
+  mass: number; // Relative mass; heavier particles give way less in collisions and to binder pull
+  diffusion: number; // Random step length in multiples of randomStepMagnitudeX
+  drift: number; // Fraction of the flow field the species is carried along by (0 holds still)
+}
 
 /**
  * Defines a reaction in the autocatalytic system.
+ *
+ * Reactants and the catalyst, the participants, must all lie within reaction
+ * distance of the first of them, at most three particles in total. Reactions
+ * with the same participants compete for each encounter by their efficiencies.
  */
 export interface Reaction {
-  reactant1: ParticleType;
-  reactant2: ParticleType;
-  catalyst: ParticleType; // Must be one of the reactants
-  product1: ParticleType;
-  product2: ParticleType;
-  efficiency: number; // 0.0 to 1.0, determines reaction probability
+  id: string; // Stable identity used for flux statistics and analysis
+  reactants: ParticleType[]; // Consumed, one to three particles
+  catalyst: ParticleType | null; // Needed but not consumed; null for uncatalyzed reactions
+  products: ParticleType[]; // Created around the catalyst, or the first reactant without one
+  efficiency: number; // 0.0 to 1.0, chance per energized encounter
+  energyRequired: number; // Energy used up per firing in thermodynamic mode
+  energyReleased: number; // Energy handed to the products per firing in thermodynamic mode
+}
+
+/**
+ * A reaction created at runtime by discovery mode, with the frame it appeared.
+ */
+export interface DiscoveredReaction {
+  frame: number;
+  reaction: Reaction;
+}
+
+export interface ObstaclePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Static obstacle in world coordinates. Substrate and energy particles collide
+ * with obstacles, so the current and the energy flow are blocked or deflected.
+ * A channel is a pair of parallel walls `width` apart along its centerline,
+ * each with pores of `poreSize` every `poreSpacing` (no pores when either is 0).
+ */
+export type Obstacle =
+  | { kind: 'circle'; x: number; y: number; radius: number }
+  | { kind: 'polygon'; points: ObstaclePoint[] }
+  | { kind: 'wall'; x1: number; y1: number; x2: number; y2: number; thickness: number }
+  | {
+      kind: 'channel';
+      x1: number;
+      y1: number;
+      x2: number;
+      y2: number;
+      width: number;
+      wallThickness: number;
+      poreSize: number;
+      poreSpacing: number;
+    };
+
+/**
+ * What happens to a particle that crosses a world edge:
+ * - periodic: re-enters at the opposite edge
+ * - reflecting: is mirrored back inside
+ * - absorbing: leaves the world and is removed (outflow)
+ * - clamped: stops on the edge
+ */
+export type BoundaryCondition = 'periodic' | 'reflecting' | 'absorbing' | 'clamped';
+
+/** Boundary condition of each world edge; top is y = 0 */
+export interface EdgeBoundaries {
+  left: BoundaryCondition;
+  right: BoundaryCondition;
+  top: BoundaryCondition;
+  bottom: BoundaryCondition;
+}
+
+/**
+ * Region where an energy source spawns particles. Positions and rectangle sizes
+ * are fractions of the world size, so sources keep their place when the world is
+ * resized; a disc radius is in world units.
+ */
+export type EnergySourceShape =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number }
+  | { kind: 'disc'; x: number; y: number; radius: number };
+
+/**
+ * How a source's inflow varies over time, as a level between 0 and 1 scaling its rate:
+ * - constant: always on
+ * - square: on for the first `dutyCycle` fraction of every `periodFrames`
+ * - sine: rises and falls smoothly over `periodFrames`, starting at half level
+ * - bursts: off, except bursts of `durationFrames` starting with `probability` per frame
+ */
+export type EnergyWaveform =
+  | { kind: 'constant' }
+  | { kind: 'square'; periodFrames: number; dutyCycle: number }
+  | { kind: 'sine'; periodFrames: number }
+  | { kind: 'bursts'; probability: number; durationFrames: number };
+
+/**
+ * Emitter of energy particles. Spawned particles keep the source's flow and
+ * turbulence for their whole life.
+ */
+export interface EnergySource {
+  shape: EnergySourceShape;
+  rate: number; // Particles per frame at full level; fractions carry over to later frames
+  direction: number; // Flow direction in degrees; 0 is right, 90 is down
+  speed: number; // Flow speed in world units per frame
+  turbulence: number; // Random jitter per frame across the flow direction
+  waveform: EnergyWaveform;
+}
+
+/**
+ * Point vortex of a flow field. Its center is given as fractions of the world
+ * size; the swirl speed peaks at `radius` world units from the center and falls
+ * off beyond it. Positive strength turns clockwise on screen.
+ */
+export interface Vortex {
+  x: number;
+  y: number;
+  radius: number;
+  strength: number; // Peak swirl speed in world units per frame
+}
+
+/**
+ * Background flow that carries particles along, in world units per frame:
+ * - uniform: the same velocity everywhere
+ * - poiseuille: laminar channel flow to the right, fastest mid-height and still at the top and bottom edges
+ * - vortices: the sum of the swirls around each vortex
+ * - noise: divergence-free turbulence from simplex noise, with eddies about `scale`
+ *   world units across that evolve by `evolution` noise units per frame
+ */
+export type FlowField =
+  | { kind: 'uniform'; vx: number; vy: number }
+  | { kind: 'poiseuille'; maxSpeed: number }
+  | { kind: 'vortices'; vortices: Vortex[] }
+  | { kind: 'noise'; strength: number; scale: number; evolution: number };
+
+/**
+ * Per-frame movement of an energy particle: a steady drift plus a jitter
+ * along (jx, jy) scaled by a uniform random number in [-0.5, 0.5).
+ */
+export interface EnergyMotion {
+  vx: number;
+  vy: number;
+  jx: number;
+  jy: number;
+}
+
+/**
+ * Energy-budget chemistry. Off, every reaction uses up one whole energy particle
+ * in range. On, energy particles carry variable amounts, substrate particles hold
+ * internal energy, and a reaction fires only when the energy within reach covers
+ * its energyRequired: that of its participants, of the nearest energy particle,
+ * and of the stores of nearby energy-attracting particles, which absorb energy
+ * particles that come within reaction distance. Consumed reactants hand what they
+ * held beyond the cost, plus the reaction's energyReleased, on to the products.
+ */
+export interface Thermodynamics {
+  enabled: boolean;
+  packetEnergyMin: number; // Each new energy particle carries an amount drawn uniformly between min and max
+  packetEnergyMax: number;
+  attractorCapacity: number; // Most energy one energy-attracting particle stores
+}
+
+/** Inflow bookkeeping of one energy source, kept in snapshots for exact resumes */
+export interface EnergyInflowState {
+  carry: number; // Fraction of a particle owed from earlier frames
+  burstFramesLeft: number;
 }
 
 /**
@@ -45,13 +220,8 @@ export interface SimulationParams {
   Lx: number;
   Ly: number;
   
-  // Particle counts
-  particleCountA: number;
-  particleCountB: number;
-  particleCountC: number;
-  particleCountD: number;
-  particleCountE: number;
-  particleCountBinder: number;
+  // Particles
+  species: Species[]; // Substrate species registry; ParticleType indexes into it
   energyParticleCount: number;
   
   // Simplified physics parameters
@@ -60,12 +230,190 @@ export interface SimulationParams {
   collisionEnergyLossPct: number; // Percentage energy loss in non-binder collisions
   binderForceUnitDistanceInR: number; // N radii distance where binder force equals X
   reactionDistanceInR: number; // Distance in radii where reactions can occur
-  energyPulsePeriodFrames: number; // Period of energy inflow pulses (frames)
-  current: number; // Rightward bias applied to substrate step per tick (pixels)
+  flow: FlowField; // Carries drifting species along each step
+  energyFlowCoupling: number; // Fraction of the flow energy particles follow on top of their source drift (0 to 1)
   attractorForceUnitDistanceInR: number; // N radii where energy pull magnitude equals baseline
+  discoveryProbability: number; // Chance an energized uncatalogued pair creates a new reaction (0 disables discovery)
+  thermodynamics: Thermodynamics; // Energy-budget chemistry, off by default
+  rafFoodSet: ParticleType[] | null; // Food set for autocatalytic set analysis; null uses the initially seeded types
   
   // Lifespan
   particleLifespan: number; // In simulation steps
+
+  // World geometry
+  obstacles: Obstacle[]; // Static obstacles that particles and the energy flow cannot pass
+  substrateBoundaries: EdgeBoundaries; // Edge behavior for substrate particles
+  energySources: EnergySource[]; // Where, when and how energy flows into the world
+  energyBoundaries: EdgeBoundaries; // Edge behavior for energy particles
+
+  // Reproducibility
+  seed: number; // Seeds the simulation PRNG; same seed and params give the same trajectory
+}
+
+/**
+ * One reflexively autocatalytic, food-generated set (RAF) found in the catalog.
+ */
+export interface RafSet {
+  reactions: Reaction[];
+  species: ParticleType[]; // Every species taking part as reactant, catalyst or product
+  alive: boolean; // All reactants and catalysts present and every reaction fired recently
+}
+
+/**
+ * Periodic autocatalytic set analysis of the live reaction network.
+ */
+export interface AutocatalysisReport {
+  frame: number;
+  foodSet: ParticleType[];
+  maxRaf: RafSet | null; // The union of all RAFs, or null when the catalog has none
+  irreducibleRafs: RafSet[]; // A sample of minimal RAFs inside the maximal one
+  activityWindowFrames: number; // How recently a reaction must have fired to count as alive
+}
+
+/**
+ * Firing statistics of one catalog reaction.
+ */
+export interface ReactionFlux {
+  id: string;
+  total: number; // Firings since the last reset
+  window: number; // Firings within the recent sliding window
+  failedRolls: number; // Energized encounters that lost the efficiency roll
+}
+
+/**
+ * Aggregate counters reported with every state update.
+ */
+export interface SimulationStats {
+  frameCount: number;
+  speciesCounts: number[]; // Live particles per species, indexed by ParticleType
+  energyParticleCount: number;
+  totalReactions: number;
+  discoveredReactions: number;
+  failedEfficiencyRolls: number; // Energized catalogued pairs that did not react
+  uncatalogedEncounters: number; // Energized pairs with no catalog entry
+  protocellCount: number; // Compartments enclosed by binder membranes
+  protocellMeanArea: number; // Mean enclosed area in square world units, 0 without protocells
+  protocellContents: number; // Substrate particles inside any protocell
+  lineageCount: number; // Binder clusters currently tracked by the genealogy
+  fissionEvents: number; // Cluster divisions recorded so far
+  fusionEvents: number; // Cluster mergers recorded so far
+  meanGeneration: number; // Mean generation of the substrate particles, see ParticleProvenance
+  maxGeneration: number;
+  freeEnergy: number; // Carried by energy particles
+  storedEnergy: number; // Held by substrate particles, attractor stores included
+  energyInjected: number; // Brought in by energy particles since the last reset
+  energySpent: number; // Used up by reactions since the last reset
+  energyReleased: number; // Released by reactions since the last reset
+  energyLost: number; // Carried out by departing particles, or released with nothing to hold it
+  energyStarvedEncounters: number; // Reactions that won their efficiency roll but needed more energy than was within reach
+}
+
+/**
+ * Compartment enclosed by a closed membrane of touching binders.
+ */
+export interface Protocell {
+  x: number; // Centroid of the enclosed region
+  y: number;
+  area: number; // Enclosed area in square world units
+  membraneSize: number; // Binders in the connected cluster forming the membrane
+  contents: Record<ParticleType, number>; // Substrate particles inside, by type; types absent have none
+  outline: number[]; // Membrane binder positions around the region as [x1, y1, x2, y2, ...]
+}
+
+export type LineageId = number;
+
+/**
+ * Binder cluster followed across lineage analyses. A lineage lasts while its
+ * cluster continues one-to-one; a division or merger ends it and starts new
+ * lineages descending from it.
+ */
+export interface Lineage {
+  id: LineageId;
+  parents: LineageId[]; // Lineages it split or merged from, largest shared membership first; empty when born fresh
+  birthFrame: number;
+  endFrame: number | null; // Analysis frame at which it ended, null while alive
+  fate: 'alive' | 'death' | 'fission' | 'fusion';
+  size: number; // Binders at the latest analysis, or when last seen once ended
+  peakSize: number;
+}
+
+export type LineageEventKind = 'birth' | 'growth' | 'fission' | 'fusion' | 'death';
+
+/**
+ * Change in the binder clusters between two consecutive lineage analyses.
+ * A growth is a lineage reaching a new peak size.
+ */
+export interface LineageEvent {
+  frame: number;
+  kind: LineageEventKind;
+  parents: LineageId[]; // Lineages before the event; empty for a birth
+  children: LineageId[]; // Lineages after it; empty for a death, the same lineage for growth
+  size: number; // Binders in the children, or in the parent for a death
+}
+
+/**
+ * Genealogy of binder clusters, as exported for analysis. Long runs keep only
+ * the latest events and the lineages that ended recently, so parents may
+ * refer to lineages no longer listed.
+ */
+export interface Genealogy {
+  frame: number; // Frame of the latest analysis
+  lineages: Lineage[];
+  events: LineageEvent[];
+}
+
+/**
+ * Complete lineage tracker state, as stored in snapshots.
+ */
+export interface LineageState extends Genealogy {
+  nextId: LineageId;
+  clusters: { lineage: LineageId; members: ParticleId[] }[]; // Live clusters at the latest analysis
+  fissions?: number; // Totals since the last reset, absent in snapshots from before the event log was capped
+  fusions?: number;
+}
+
+/**
+ * The reaction that produced a substrate particle and the particles it came from.
+ */
+export interface ParticleOrigin {
+  reactionId: string;
+  catalystId: ParticleId | null; // Null for uncatalyzed reactions
+  reactantIds: ParticleId[]; // Consumed by the reaction
+}
+
+/**
+ * Where a substrate particle came from. Particles placed at initialization or
+ * with the brush have no origin and are generation 0; a reaction product is one
+ * generation past the higher of its catalyst's and reactant's.
+ */
+export interface ParticleProvenance {
+  id: ParticleId;
+  type: ParticleType;
+  birthFrame: number;
+  generation: number;
+  origin: ParticleOrigin | null;
+  offspring: number; // Products of reactions it took part in as catalyst or reactant
+}
+
+/**
+ * Ancestry of one particle: itself first, then its ancestors breadth-first.
+ * Incomplete when an ancestor has been forgotten or the query limit was reached.
+ */
+export interface Ancestry {
+  id: ParticleId;
+  records: ParticleProvenance[];
+  complete: boolean;
+}
+
+/**
+ * Generation statistics for the live particles of one substrate type.
+ */
+export interface SpeciesGenerations {
+  type: ParticleType;
+  count: number;
+  meanGeneration: number;
+  maxGeneration: number;
+  originals: number; // Generation 0 particles, i.e. left over from seeding or placed with the brush
 }
 
 /**
@@ -74,20 +422,94 @@ export interface SimulationParams {
 export interface SimulationState {
   positions: Float32Array;    // [x1, y1, x2, y2, ...]
   types: Uint8Array;          // ParticleType for each particle
-  stats: {
-    frameCount: number;
-    particleCountA: number;
-    particleCountB: number;
-    particleCountC: number;
-    particleCountD: number;
-    particleCountAttractor: number;
-    particleCountE: number;
-    particleCountBinder: number;
-    energyParticleCount: number;
-    totalReactions: number;
-  };
+  energies?: Float32Array;    // Recent reaction energy, 0-1 (always 0 for energy particles)
+  ages?: Float32Array;        // Age as a fraction of particleLifespan, 0-1 (always 0 for energy particles)
+  stats: SimulationStats;
+  reactionFlux: ReactionFlux[]; // One entry per catalog reaction
+  fluxWindowFrames: number; // Length of the sliding window behind ReactionFlux.window
+  protocells: Protocell[];
+  generations: SpeciesGenerations[]; // Substrate types present, in type order
+}
+
+/**
+ * Inspection details for one substrate particle.
+ */
+export interface ParticleInfo {
+  id: ParticleId;
+  type: ParticleType;
+  x: number;
+  y: number;
+  birthFrame: number;
+  age: number; // Frames since birth
+  energy: number;
+  storedEnergy: number; // Internal energy, see Thermodynamics
+  reactions: Reaction[]; // Catalog reactions its type takes part in as a reactant or catalyst
+  generation: number;
+  origin: ParticleOrigin | null;
+  offspring: number;
+}
+
+/**
+ * Optional per-particle arrays to include in an exported SimulationState.
+ */
+export interface StateExportOptions {
+  energies?: boolean;
+  ages?: boolean;
 }
 
+/**
+ * Current version of the snapshot format. Bump when the layout changes.
+ * Version 1 stored two-reactant reactions and origins and no energy accounting.
+ */
+export const SNAPSHOT_VERSION = 2;
+
+/**
+ * Complete, serializable world state. Restoring a snapshot resumes the
+ * simulation exactly where it was taken, including the PRNG stream.
+ */
+export interface SimulationSnapshot {
+  version: number; // Older versions are upgraded on load
+  params: SimulationParams;
+  frameCount: number;
+  nextId: ParticleId;
+  totalReactions: number;
+  failedEfficiencyRolls?: number; // Encounter counters, absent in older snapshots
+  uncatalogedEncounters?: number;
+  energyStarvedEncounters?: number;
+  energyInjected?: number; // Energy accounting, absent in snapshots taken before thermodynamic mode existed
+  energySpent?: number;
+  energyReleased?: number;
+  randomState: number;
+  reactions: Reaction[];
+  discoveries?: DiscoveredReaction[]; // Absent in snapshots taken before discovery mode existed
+  particles: {
+    id: ParticleId;
+    x: number;
+    y: number;
+    type: ParticleType;
+    birthFrame: number;
+    energy: number;
+    slot?: number; // Storage slot, absent in older snapshots
+    generation?: number; // Provenance, absent in snapshots taken before it was recorded
+    origin?: ParticleOrigin | null;
+    offspring?: number;
+    storedEnergy?: number; // Absent in snapshots taken before thermodynamic mode existed
+  }[];
+  energyParticles: {
+    id: ParticleId;
+    x: number;
+    y: number;
+    slot?: number;
+    motion?: EnergyMotion; // Absent in snapshots taken before energy sources existed
+    amount?: number; // Absent in snapshots taken before thermodynamic mode existed
+  }[];
+  energyInflow?: EnergyInflowState[];
+  lineage?: LineageState; // Absent in snapshots taken before lineage tracking existed
+  ancestors?: ParticleProvenance[]; // Remembered ancestors that have left the world, oldest first
+}
+
+export type GenealogyFormat = 'json' | 'newick';
+
 /**
  * Defines the messages that can be sent *to* the simulation worker.
  */
@@ -96,11 +518,30 @@ export type WorkerCommand =
   | { type: 'start' }
   | { type: 'stop' }
   | { type: 'reset' }
-  | { type: 'setParams'; params: Partial<SimulationParams> };
+  | { type: 'setParams'; params: Partial<SimulationParams> }
+  | { type: 'exportSnapshot' }
+  | { type: 'exportGenealogy'; format: GenealogyFormat }
+  | { type: 'loadSnapshot'; snapshot: SimulationSnapshot }
+  | { type: 'setReactions'; reactions: Reaction[] }
+  | { type: 'queryParticles'; x: number; y: number; radius: number }
+  | { type: 'followParticle'; id: ParticleId | null }
+  | { type: 'queryAncestry'; id: ParticleId }
+  | { type: 'spawnParticles'; particleType: ParticleType; x: number; y: number; radius: number; count: number }
+  | { type: 'removeParticlesInRegion'; x: number; y: number; radius: number; particleTypes?: ParticleType[] }
+  | { type: 'moveParticlesInRegion'; x: number; y: number; radius: number; dx: number; dy: number };
 
 /**
  * Defines the messages that can be sent *from* the simulation worker.
  */
 export type WorkerEvent =
   | { type: 'initialized' }
-  | { type: 'stateUpdate'; state: SimulationState };
\ No newline at end of file
+  | { type: 'stateUpdate'; state: SimulationState; followed?: ParticleInfo | null } // followed is null once the particle is gone
+  | { type: 'snapshot'; snapshot: SimulationSnapshot }
+  | { type: 'genealogy'; format: GenealogyFormat; frame: number; content: string }
+  | { type: 'snapshotLoaded'; params: SimulationParams; reactions: Reaction[]; discoveries: DiscoveredReaction[] }
+  | { type: 'snapshotError'; message: string } // The snapshot was rejected and the world left as it was
+  | { type: 'paramsRejected'; message: string; params: Partial<SimulationParams> } // The values still in effect for the rejected keys
+  | { type: 'reactionsDiscovered'; discoveries: DiscoveredReaction[] }
+  | { type: 'autocatalysisReport'; report: AutocatalysisReport }
+  | { type: 'particlesQueried'; x: number; y: number; particles: ParticleInfo[] }
+  | { type: 'ancestry'; ancestry: Ancestry };
\ No newline at end of file
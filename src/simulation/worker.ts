@@ -1,10 +1,16 @@
-import type { SimulationParams, WorkerCommand, WorkerEvent } from './types'
+import type { GenealogyFormat, ParticleId, Reaction, SimulationParams, SimulationSnapshot, WorkerCommand, WorkerEvent } from './types'
 import { Simulation } from './simulation'
+import { formatGenealogy } from './lineage'
 
 // The simulation instance manages all state
 let simulation: Simulation | null = null
 let simulationRunning = false
 let animationFrameId: number | null = null
+// Particle whose details accompany every state update, for the inspector and camera
+let followedId: ParticleId | null = null
+
+// Autocatalytic set analysis runs every N simulation frames
+const AUTOCATALYSIS_INTERVAL_FRAMES = 30
 
 /**
  * Posts a message back to the main thread.
@@ -14,6 +20,33 @@ const post = (event: WorkerEvent, transferables?: Transferable[]) => {
   else self.postMessage(event)
 }
 
+/**
+ * Exports the current state and transfers its buffers to the main thread.
+ */
+function postState(): void {
+  if (!simulation) return
+  // Energies and ages are always sent so any render mode can be shown immediately
+  const state = simulation.exportState({ energies: true, ages: true })
+  const followed = followedId === null ? undefined : simulation.getParticleInfo(followedId)
+  post(
+    { type: 'stateUpdate', state, followed },
+    [
+      state.positions.buffer,
+      state.types.buffer,
+      state.energies!.buffer,
+      state.ages!.buffer,
+    ]
+  )
+}
+
+/**
+ * Runs the autocatalytic set analysis and reports it to the main thread.
+ */
+function postAutocatalysis(): void {
+  if (!simulation) return
+  post({ type: 'autocatalysisReport', report: simulation.analyzeAutocatalysis() })
+}
+
 /**
  * Initializes the simulation with the given parameters.
  */
@@ -34,15 +67,14 @@ function tick(): void {
     // Step the simulation forward
     simulation.step()
 
+    // Report reactions found by discovery mode during this step
+    const discoveries = simulation.takeDiscoveries()
+    if (discoveries.length > 0) post({ type: 'reactionsDiscovered', discoveries })
+
     // Export state for rendering
-    const state = simulation.exportState();
-    post(
-      { type: 'stateUpdate', state },
-      [
-        state.positions.buffer,
-        state.types.buffer,
-      ]
-    );
+    postState()
+
+    if (simulation.getFrameCount() % AUTOCATALYSIS_INTERVAL_FRAMES === 0) postAutocatalysis()
 
     // Schedule next frame
     if (simulationRunning) {
@@ -88,20 +120,131 @@ function stop(): void {
 function reset(): void {
   if (simulation) {
     simulation.reset()
+    postAutocatalysis()
     console.log('Simulation reset.')
   }
 }
 
 /**
- * Updates simulation parameters.
+ * Updates simulation parameters. Rejected params are reported together with
+ * the values still in effect, so the UI can put them back.
  */
 function setParams(params: Partial<SimulationParams>): void {
   if (simulation) {
-    simulation.updateParams(params)
+    try {
+      simulation.updateParams(params)
+    } catch (error) {
+      console.error('Could not update simulation parameters:', error)
+      const current = simulation.getParams()
+      const restored = Object.fromEntries(Object.keys(params).map((key) => [key, current[key as keyof SimulationParams]]))
+      post({ type: 'paramsRejected', message: (error as Error).message, params: restored as Partial<SimulationParams> })
+      return
+    }
+    if (params.rafFoodSet !== undefined) postAutocatalysis()
     console.log('Simulation parameters updated:', params)
   }
 }
 
+/**
+ * Replaces the reaction catalog; it stays in effect across resets.
+ */
+function setReactions(reactions: Reaction[]): void {
+  if (simulation) {
+    simulation.setReactions(reactions)
+    postAutocatalysis()
+    console.log(`Reaction catalog updated (${reactions.length} reactions).`)
+  }
+}
+
+/**
+ * Sends a full snapshot of the current world to the main thread.
+ */
+function exportSnapshot(): void {
+  if (!simulation) {
+    console.error('Cannot export snapshot: not initialized')
+    return
+  }
+  post({ type: 'snapshot', snapshot: simulation.exportSnapshot() })
+}
+
+/**
+ * Sends the cluster genealogy to the main thread, serialized in the requested format.
+ */
+function exportGenealogy(format: GenealogyFormat): void {
+  if (!simulation) {
+    console.error('Cannot export genealogy: not initialized')
+    return
+  }
+  const genealogy = simulation.getGenealogy()
+  post({ type: 'genealogy', format, frame: genealogy.frame, content: formatGenealogy(genealogy, format) })
+}
+
+/**
+ * Restores a snapshot and immediately publishes the restored state,
+ * so it is visible even while the simulation is stopped. A snapshot that
+ * fails to load is reported, and the world it partly replaced is put back.
+ */
+function loadSnapshot(snapshot: SimulationSnapshot): void {
+  if (!simulation) {
+    console.error('Cannot load snapshot: not initialized')
+    post({ type: 'snapshotError', message: 'Simulation not initialized' })
+    return
+  }
+  const previous = simulation.exportSnapshot()
+  try {
+    simulation.loadSnapshot(snapshot)
+  } catch (error) {
+    console.error('Could not load snapshot:', error)
+    simulation.loadSnapshot(previous)
+    post({ type: 'snapshotError', message: (error as Error).message })
+    return
+  }
+  post({
+    type: 'snapshotLoaded',
+    params: simulation.getParams(),
+    reactions: simulation.getReactions(),
+    discoveries: simulation.getDiscoveries(),
+  })
+  postState()
+  postAutocatalysis()
+  console.log(`Snapshot loaded at frame ${snapshot.frameCount}.`)
+}
+
+/**
+ * Reports the particles near a world point, e.g. where the user clicked.
+ */
+function queryParticles(x: number, y: number, radius: number): void {
+  if (!simulation) return
+  post({ type: 'particlesQueried', x, y, particles: simulation.queryParticles(x, y, radius) })
+}
+
+/**
+ * Reports where a particle came from, as far back as the ancestry is remembered.
+ */
+function queryAncestry(id: ParticleId): void {
+  if (!simulation) return
+  post({ type: 'ancestry', ancestry: simulation.getAncestry(id) })
+}
+
+/**
+ * Starts or stops including a particle's details in state updates.
+ * Publishes the state right away so the inspector updates while paused.
+ */
+function followParticle(id: ParticleId | null): void {
+  followedId = id
+  postState()
+}
+
+/**
+ * Applies a brush edit to the world. Works while running; when stopped, the
+ * result is published right away so it shows on the canvas.
+ */
+function editWorld(edit: (simulation: Simulation) => void): void {
+  if (!simulation) return
+  edit(simulation)
+  if (!simulationRunning) postState()
+}
+
 /**
  * Handles commands sent from the main thread.
  */
@@ -127,6 +270,36 @@ self.onmessage = (e: MessageEvent<WorkerCommand>) => {
           setParams(cmd.params)
         }
         break
+      case 'exportSnapshot':
+        exportSnapshot()
+        break
+      case 'exportGenealogy':
+        exportGenealogy(cmd.format)
+        break
+      case 'loadSnapshot':
+        loadSnapshot(cmd.snapshot)
+        break
+      case 'setReactions':
+        setReactions(cmd.reactions)
+        break
+      case 'queryParticles':
+        queryParticles(cmd.x, cmd.y, cmd.radius)
+        break
+      case 'followParticle':
+        followParticle(cmd.id)
+        break
+      case 'queryAncestry':
+        queryAncestry(cmd.id)
+        break
+      case 'spawnParticles':
+        editWorld((sim) => sim.spawnParticles(cmd.particleType, cmd.x, cmd.y, cmd.radius, cmd.count))
+        break
+      case 'removeParticlesInRegion':
+        editWorld((sim) => sim.removeParticlesInRegion(cmd.x, cmd.y, cmd.radius, cmd.particleTypes))
+        break
+      case 'moveParticlesInRegion':
+        editWorld((sim) => sim.moveParticlesInRegion(cmd.x, cmd.y, cmd.radius, cmd.dx, cmd.dy))
+        break
       default:
         console.warn('Unknown command type:', cmd)
     }
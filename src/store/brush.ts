@@ -0,0 +1,69 @@
+import type { Obstacle, ObstaclePoint } from '../simulation/types.js'
+import { ParticleType } from '../simulation/types.js'
+
+/**
+ * What a left-button drag on the canvas does: inspect pans and picks particles,
+ * the others edit the world through the brush.
+ */
+export type BrushTool = 'inspect' | 'spawn' | 'erase' | 'energy' | 'move' | 'obstacle'
+
+/** What the obstacle tool draws, or 'remove' to delete obstacles by clicking them */
+export type ObstacleShape = Obstacle['kind'] | 'remove'
+
+export interface BrushSettings {
+  tool: BrushTool
+  particleType: ParticleType // Substrate type painted by the spawn tool
+  radius: number // World units
+  density: number // Particles per 1000 square world units in each spawn dab
+  energyBurst: number // Energy particles injected per click
+  eraseSelectedTypeOnly: boolean
+  obstacleShape: ObstacleShape
+  wallThickness: number // World units, for walls and channel walls
+  channelWidth: number // Distance between the two walls of a channel
+  poreSize: number // Gap in channel walls; 0 for closed walls
+  poreSpacing: number // Distance between pore centers along a channel
+}
+
+export const defaultBrush: BrushSettings = {
+  tool: 'inspect',
+  particleType: ParticleType.A,
+  radius: 30,
+  density: 2,
+  energyBurst: 40,
+  eraseSelectedTypeOnly: false,
+  obstacleShape: 'wall',
+  wallThickness: 6,
+  channelWidth: 40,
+  poreSize: 8,
+  poreSpacing: 60,
+}
+
+/** Number of particles one spawn dab adds; always at least one */
+export function spawnCount(brush: BrushSettings): number {
+  return Math.max(1, Math.round((brush.density * Math.PI * brush.radius * brush.radius) / 1000))
+}
+
+/**
+ * Obstacle drawn by dragging from `from` to `to`: a circle around `from`, or a
+ * wall or channel between the two points. Polygons are drawn point by point instead.
+ */
+export function dragObstacle(brush: BrushSettings, from: ObstaclePoint, to: ObstaclePoint): Obstacle | null {
+  const { x: x1, y: y1 } = from
+  const { x: x2, y: y2 } = to
+  switch (brush.obstacleShape) {
+    case 'circle':
+      return { kind: 'circle', x: x1, y: y1, radius: Math.hypot(x2 - x1, y2 - y1) }
+    case 'wall':
+      return { kind: 'wall', x1, y1, x2, y2, thickness: brush.wallThickness }
+    case 'channel':
+      return {
+        kind: 'channel', x1, y1, x2, y2,
+        width: brush.channelWidth,
+        wallThickness: brush.wallThickness,
+        poreSize: brush.poreSize,
+        poreSpacing: brush.poreSpacing,
+      }
+    default:
+      return null
+  }
+}
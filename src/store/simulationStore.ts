@@ -1,9 +1,30 @@
 import { create } from 'zustand'
 import type {
+  Ancestry,
+  AutocatalysisReport,
+  DiscoveredReaction,
+  GenealogyFormat,
+  ParticleId,
+  ParticleInfo,
+  ParticleType,
+  Reaction,
   SimulationParams,
+  SimulationSnapshot,
   SimulationState,
-  WorkerCommand
+  SimulationStats,
+  WorkerCommand,
+  WorkerEvent
 } from '../simulation/types.js'
+import { defaultParams } from '../simulation/defaults.js'
+import { createDefaultReactions, validateReactionCatalog } from '../simulation/reactions.js'
+import { downloadText } from '../utils/download.js'
+import type { RendererKind, RendererPreference, RenderMode } from '../rendering/renderer.js'
+import type { Camera } from '../rendering/camera.js'
+import { centerOn, defaultCamera } from '../rendering/camera.js'
+import type { StatsHistory } from './statsHistory.js'
+import type { BrushSettings } from './brush.js'
+import { defaultBrush } from './brush.js'
+import { appendStats, emptyHistory } from './statsHistory.js'
 
 // Initialize the simulation worker.
 const worker = new Worker(new URL('../simulation/worker.ts', import.meta.url), {
@@ -20,8 +41,26 @@ interface SimulationStore {
   isRunning: boolean
   isInitialized: boolean
   params: SimulationParams
+  paramsError: string | null // Why the worker refused the last params change
+  reactions: Reaction[]
+  reactionsError: string | null // Why the last catalog change was rejected
+  discoveries: DiscoveredReaction[]
+  autocatalysis: AutocatalysisReport | null
   simulationState: SimulationState | null
-  stats: Record<string, number>
+  stats: Partial<SimulationStats>
+  history: StatsHistory
+  rendererPreference: RendererPreference
+  activeRenderer: RendererKind | null // Backend the canvas actually ended up with
+  renderMode: RenderMode
+  showFlow: boolean // Draw flow field arrows over the canvas
+  showProtocells: boolean // Outline detected protocells on the canvas
+  camera: Camera
+  inspected: { x: number; y: number; particles: ParticleInfo[] } | null // Last click query
+  followedId: ParticleId | null
+  followed: ParticleInfo | null // Live details of the followed particle
+  ancestry: Ancestry | null // Last ancestry query
+  snapshotError: string | null // Why the last snapshot could not be loaded
+  brush: BrushSettings
 
   // Actions
   init: () => void
@@ -29,35 +68,26 @@ interface SimulationStore {
   stop: () => void
   reset: () => void
   setParams: (newParams: Partial<SimulationParams>) => void
-}
-
-// Default simulation parameters for simplified physics model
-const defaultParams: SimulationParams = {
-  // World dimensions
-  Lx: 800,
-  Ly: 600,
-  
-  // Particle counts
-  particleCountA: 50,
-  particleCountB: 50,
-  particleCountC: 50,
-  particleCountD: 0,
-  particleCountE: 0,
-  particleCountBinder: 10,
-  energyParticleCount: 250,
-  
-  // Simplified physics parameters
-  particleRadius: 4,
-  randomStepMagnitudeX: 0.8,
-  collisionEnergyLossPct: 20,
-  binderForceUnitDistanceInR: 4,
-  reactionDistanceInR: 3,
-  energyPulsePeriodFrames: 1000,
-  current: 0.4,
-  attractorForceUnitDistanceInR: 5,
-  
-  // Lifespan
-  particleLifespan: 1100
+  exportSnapshot: () => void
+  exportGenealogy: (format: GenealogyFormat) => void
+  loadSnapshot: (snapshot: SimulationSnapshot) => void
+  setSnapshotError: (snapshotError: string | null) => void
+  setReactions: (reactions: Reaction[]) => void
+  setRendererPreference: (preference: RendererPreference) => void
+  setActiveRenderer: (kind: RendererKind | null) => void
+  setRenderMode: (mode: RenderMode) => void
+  setShowFlow: (showFlow: boolean) => void
+  setShowProtocells: (showProtocells: boolean) => void
+  setCamera: (camera: Camera) => void
+  queryParticles: (x: number, y: number, radius: number) => void
+  clearInspection: () => void
+  queryAncestry: (id: ParticleId) => void
+  clearAncestry: () => void
+  followParticle: (id: ParticleId | null) => void
+  setBrush: (brush: Partial<BrushSettings>) => void
+  spawnParticles: (particleType: ParticleType, x: number, y: number, radius: number, count: number) => void
+  removeParticlesInRegion: (x: number, y: number, radius: number, particleTypes?: ParticleType[]) => void
+  moveParticlesInRegion: (x: number, y: number, radius: number, dx: number, dy: number) => void
 }
 
 export const useSimulationStore = create<SimulationStore>((set, get) => ({
@@ -65,8 +95,26 @@ export const useSimulationStore = create<SimulationStore>((set, get) => ({
   isRunning: false,
   isInitialized: false,
   params: defaultParams,
+  paramsError: null,
+  reactions: createDefaultReactions(),
+  reactionsError: null,
+  discoveries: [],
+  autocatalysis: null,
   simulationState: null,
   stats: {},
+  history: emptyHistory(),
+  rendererPreference: 'auto',
+  activeRenderer: null,
+  renderMode: 'type',
+  showFlow: false,
+  showProtocells: false,
+  camera: defaultCamera,
+  inspected: null,
+  followedId: null,
+  followed: null,
+  ancestry: null,
+  snapshotError: null,
+  brush: defaultBrush,
 
   // Actions implementation
   init: () => {
@@ -82,20 +130,143 @@ export const useSimulationStore = create<SimulationStore>((set, get) => ({
   },
   reset: () => {
     worker.postMessage({ type: 'reset' } as WorkerCommand)
+    set({ discoveries: [], history: emptyHistory(), ancestry: null })
   },
   setParams: (newParams: Partial<SimulationParams>) => {
-    set((state) => ({ params: { ...state.params, ...newParams } }))
+    set((state) => ({ params: { ...state.params, ...newParams }, paramsError: null }))
     worker.postMessage({ type: 'setParams', params: newParams } as WorkerCommand)
   },
+  exportSnapshot: () => {
+    worker.postMessage({ type: 'exportSnapshot' } as WorkerCommand)
+  },
+  exportGenealogy: (format: GenealogyFormat) => {
+    worker.postMessage({ type: 'exportGenealogy', format } as WorkerCommand)
+  },
+  loadSnapshot: (snapshot: SimulationSnapshot) => {
+    set({ snapshotError: null })
+    worker.postMessage({ type: 'loadSnapshot', snapshot } as WorkerCommand)
+  },
+  setSnapshotError: (snapshotError: string | null) => {
+    set({ snapshotError })
+  },
+  setReactions: (reactions: Reaction[]) => {
+    // Checked here, as the worker would, so the UI never shows a catalog the simulation refused
+    const problem = validateReactionCatalog(reactions, get().params.species.length)
+    if (problem) {
+      set({ reactionsError: problem })
+      return
+    }
+    set({ reactions, reactionsError: null })
+    worker.postMessage({ type: 'setReactions', reactions } as WorkerCommand)
+  },
+  setRendererPreference: (rendererPreference: RendererPreference) => {
+    set({ rendererPreference })
+  },
+  setActiveRenderer: (activeRenderer: RendererKind | null) => {
+    set({ activeRenderer })
+  },
+  setRenderMode: (renderMode: RenderMode) => {
+    set({ renderMode })
+  },
+  setShowFlow: (showFlow: boolean) => {
+    set({ showFlow })
+  },
+  setShowProtocells: (showProtocells: boolean) => {
+    set({ showProtocells })
+  },
+  setCamera: (camera: Camera) => {
+    set({ camera })
+  },
+  queryParticles: (x: number, y: number, radius: number) => {
+    worker.postMessage({ type: 'queryParticles', x, y, radius } as WorkerCommand)
+  },
+  clearInspection: () => {
+    set({ inspected: null })
+  },
+  queryAncestry: (id: ParticleId) => {
+    worker.postMessage({ type: 'queryAncestry', id } as WorkerCommand)
+  },
+  clearAncestry: () => {
+    set({ ancestry: null })
+  },
+  followParticle: (id: ParticleId | null) => {
+    set({ followedId: id, followed: null })
+    worker.postMessage({ type: 'followParticle', id } as WorkerCommand)
+  },
+  setBrush: (brush: Partial<BrushSettings>) => {
+    set((state) => ({ brush: { ...state.brush, ...brush } }))
+  },
+  spawnParticles: (particleType: ParticleType, x: number, y: number, radius: number, count: number) => {
+    worker.postMessage({ type: 'spawnParticles', particleType, x, y, radius, count } as WorkerCommand)
+  },
+  removeParticlesInRegion: (x: number, y: number, radius: number, particleTypes?: ParticleType[]) => {
+    worker.postMessage({ type: 'removeParticlesInRegion', x, y, radius, particleTypes } as WorkerCommand)
+  },
+  moveParticlesInRegion: (x: number, y: number, radius: number, dx: number, dy: number) => {
+    worker.postMessage({ type: 'moveParticlesInRegion', x, y, radius, dx, dy } as WorkerCommand)
+  },
 }))
 
 // Listen for messages from the worker and update the store accordingly.
-worker.onmessage = (e: MessageEvent) => {
-  const { type, state } = e.data
-  if (type === 'initialized') {
+worker.onmessage = (e: MessageEvent<WorkerEvent>) => {
+  const event = e.data
+  if (event.type === 'initialized') {
     useSimulationStore.setState({ isInitialized: true })
   }
-  if (type === 'stateUpdate' && state) {
-    useSimulationStore.setState({ simulationState: state, stats: state.stats });
+  if (event.type === 'stateUpdate' && event.state) {
+    useSimulationStore.setState((state) => ({
+      simulationState: event.state,
+      stats: event.state.stats,
+      history: appendStats(state.history, event.state.stats),
+    }));
+    if (event.followed !== undefined) onFollowedUpdate(event.followed)
+  }
+  if (event.type === 'snapshot') {
+    // Saved snapshots are downloaded as versioned JSON named after their frame
+    const filename = `snapshot-frame-${event.snapshot.frameCount}.json`
+    downloadText(filename, JSON.stringify(event.snapshot), 'application/json')
+  }
+  if (event.type === 'genealogy') {
+    const filename = `genealogy-frame-${event.frame}.${event.format === 'newick' ? 'nwk' : 'json'}`
+    downloadText(filename, event.content, event.format === 'newick' ? 'text/plain' : 'application/json')
+  }
+  if (event.type === 'snapshotLoaded') {
+    // The restored world brings its own params and catalog; mirror them in the UI
+    useSimulationStore.setState({ params: event.params, paramsError: null, reactions: event.reactions, reactionsError: null, discoveries: event.discoveries })
+  }
+  if (event.type === 'paramsRejected') {
+    // Put back what the simulation still runs with
+    useSimulationStore.setState((state) => ({ params: { ...state.params, ...event.params }, paramsError: event.message }))
+  }
+  if (event.type === 'snapshotError') {
+    useSimulationStore.setState({ snapshotError: event.message })
   }
-};
\ No newline at end of file
+  if (event.type === 'autocatalysisReport') {
+    useSimulationStore.setState({ autocatalysis: event.report })
+  }
+  if (event.type === 'ancestry') {
+    useSimulationStore.setState({ ancestry: event.ancestry })
+  }
+  if (event.type === 'particlesQueried') {
+    useSimulationStore.setState({ inspected: { x: event.x, y: event.y, particles: event.particles } })
+  }
+  if (event.type === 'reactionsDiscovered') {
+    useSimulationStore.setState((state) => ({ discoveries: [...state.discoveries, ...event.discoveries] }))
+  }
+};
+
+/**
+ * Keeps the camera centered on the followed particle, and stops following once it is gone.
+ */
+function onFollowedUpdate(followed: ParticleInfo | null): void {
+  const { followedId, camera, params, followParticle } = useSimulationStore.getState()
+  if (followedId === null) return
+  if (!followed) {
+    followParticle(null)
+    return
+  }
+  useSimulationStore.setState({
+    followed,
+    camera: centerOn(camera, followed.x, followed.y, params.Lx, params.Ly),
+  })
+}
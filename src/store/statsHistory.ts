@@ -0,0 +1,49 @@
+import type { SimulationStats } from '../simulation/types.js'
+
+/**
+ * Bounded time series of stats snapshots.
+ *
+ * Every frame is kept until the capacity is reached; then every other sample
+ * is dropped and the sampling stride doubles. Memory stays bounded while the
+ * whole run remains visible at progressively coarser resolution.
+ */
+export interface StatsHistory {
+  samples: SimulationStats[];
+  stride: number; // Only frames that are a multiple of stride are recorded
+}
+
+export const HISTORY_CAPACITY = 1000
+
+export const emptyHistory = (): StatsHistory => ({ samples: [], stride: 1 })
+
+/**
+ * Returns the history with `stats` appended, downsampling if it grew too large.
+ * A frame counter going backwards (reset or snapshot load) starts a new history;
+ * a repeated frame is ignored.
+ */
+export function appendStats(history: StatsHistory, stats: SimulationStats): StatsHistory {
+  const last = history.samples[history.samples.length - 1]
+  if (last && stats.frameCount === last.frameCount) return history
+  if (last && stats.frameCount < last.frameCount) history = emptyHistory()
+  if (stats.frameCount % history.stride !== 0) return history
+
+  let samples = [...history.samples, stats]
+  let stride = history.stride
+  if (samples.length > HISTORY_CAPACITY) {
+    stride *= 2
+    samples = samples.filter((s) => s.frameCount % stride === 0)
+  }
+  return { samples, stride }
+}
+
+/**
+ * Reactions per frame between consecutive samples; the first sample has rate 0.
+ */
+export function reactionRates(samples: SimulationStats[]): number[] {
+  return samples.map((s, i) => {
+    if (i === 0) return 0
+    const prev = samples[i - 1]
+    const frames = s.frameCount - prev.frameCount
+    return frames > 0 ? (s.totalReactions - prev.totalReactions) / frames : 0
+  })
+}
@@ -0,0 +1,12 @@
+/**
+ * Triggers a browser download of in-memory text content.
+ */
+export function downloadText(filename: string, content: string, mimeType: string = 'text/plain'): void {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}